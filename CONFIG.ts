@@ -1,6 +1,7 @@
 import fs from "fs";
 import os from "os";
 import path from "path";
+import { isDifficulty, type Difficulty } from "./src/ai/difficulty";
 
 const DEFAULTS = {
     roomId: undefined,
@@ -12,6 +13,12 @@ const DEFAULTS = {
     playerUsername: "eduapps",
     maxAiMessages: 4,
     geminiModel: "gemini-3-flash-preview", //gemini-2.5-flash, gemini-3-pro-preview
+    llmProvider: "gemini", // gemini, openai, ollama, llamacpp
+    llmRepairAttempts: 2,
+    caseAttempts: 3,
+    minContradictions: 2,
+    difficulty: "normal" as Difficulty,
+    days: 1,
 };
 
 function printHelp(): void {
@@ -26,11 +33,58 @@ Options:
   --max-ai-messages <n>   Max sequential AI messages (default: ${DEFAULTS.maxAiMessages})
   --gemini-key <key>      Gemini API key
   --gemini-model <id>     Gemini model id (default: ${DEFAULTS.geminiModel})
+  --model-case <id>       Model for case authoring: premise, evidence, characters
+  --model-speaker <id>    Model for choosing the next speaker (a cheap one is fine)
+  --model-speech <id>     Model for character lines
+                          (all three default to the main model)
+  --llm-provider <name>   LLM backend: gemini, openai, ollama, llamacpp (default: ${DEFAULTS.llmProvider})
+  --llm-base-url <url>    Base URL of the LLM backend (default: provider's own)
+  --llm-model <id>        Model id for non-Gemini backends (default: provider's own)
+  --llm-key <key>         API key for non-Gemini backends (or LLM_API_KEY env)
+  --max-tokens-per-trial <n>
+                          Token budget per trial; the AI falls back to cheap
+                          speaker picks near the limit and wraps up when spent
+  --max-cost <usd>        Cost budget per trial in USD (same behavior)
+  --llm-repair-attempts <n>
+                          Retries with a repair prompt when the LLM output breaks
+                          the JSON schema (default: ${DEFAULTS.llmRepairAttempts})
+  --llm-cassette <mode> <file>
+                          Record every LLM call to <file>, or replay a recorded
+                          trial offline (mode: record | replay)
+  --llm-cassette-lenient  When replaying, answer prompts that were not recorded
+                          with the next response recorded for the same schema
+                          instead of failing
+  --difficulty <level>    easy, normal, hard or nightmare: evidence, contradictions,
+                          witness/prosecutor behavior and mistakes allowed
+                          (default: ${DEFAULTS.difficulty})
+  --days <n>              Court days per trial; each later day starts with an
+                          investigation where new evidence is found (default: ${DEFAULTS.days})
+  --save-case <file>      Write the generated case (with its hidden truth) to <file>
+  --load-case <file>      Play a case saved with --save-case instead of generating one
+  --campaign <file>       Play the next episode of a series: recurring characters,
+                          their memories, past verdicts and open threads are kept
+                          in <file> (created on first use)
+  --theme <file>          Theme pack (JSON, or YAML under Bun): setting, era, tone,
+                          victim and weapon archetypes, banned topics, character
+                          presets and backgrounds every generated case must follow
+  --case-library <dir>    Case library used by the "library" and "queue" commands
+                          (default: ~/.objection-ai/cases)
+  --case-attempts <n>     Times a case is regenerated when it fails the
+                          solvability check (default: ${DEFAULTS.caseAttempts})
+  --min-contradictions <n>
+                          Contradictions a case must have to be playable
+                          (default: ${DEFAULTS.minContradictions})
+  --prompts-dir <dir>     Load prompt templates (story.txt, evidence.txt,
+                          characters.txt, truth.txt, contradictions.txt,
+                          testimony.txt, speaker.txt, speech.txt) from <dir>;
+                          missing files use the built-in prompts
   -h, --help              Show this help
 
 Examples:
   node index.ts --room-id 22p3ya --room-pass passwording
   node index.ts --prompt "New case prompt" --max-ai-messages 3
+  node index.ts --room-id 22p3ya --llm-provider ollama --llm-model llama3.1
+  node index.ts --room-id 22p3ya --llm-cassette replay ./trial.cassette.json
 `;
 
     console.log(helpText.trim());
@@ -50,6 +104,15 @@ function parseArgs(argv: string[]) {
         }
 
         const key = token.replace(/^--?/, "");
+
+        // --llm-cassette takes two values: the mode and the cassette file.
+        if (key === "llm-cassette") {
+            args[key] = argv[i + 1] ?? true;
+            args["llm-cassette-file"] = argv[i + 2] ?? true;
+            i += 2;
+            continue;
+        }
+
         const next = argv[i + 1];
         if (!next || next.startsWith("-")) {
             args[key] = true;
@@ -63,6 +126,11 @@ function parseArgs(argv: string[]) {
     return args;
 }
 
+// Provider names are matched case-insensitively, like the provider registry does.
+function normalizeProvider(name: string | boolean | undefined): string {
+    return typeof name === "string" && name.trim() ? name.trim().toLowerCase() : DEFAULTS.llmProvider;
+}
+
 const cliArgs = parseArgs(process.argv.slice(2));
 if (cliArgs.help) {
     printHelp();
@@ -70,6 +138,7 @@ if (cliArgs.help) {
 }
 
 const PRESET_PATH = path.join(os.homedir(), ".objection-ai-preset.json");
+const CASE_LIBRARY_PATH = path.join(os.homedir(), ".objection-ai", "cases");
 
 // Color codes for terminal output
 const colors = {
@@ -142,8 +211,15 @@ async function interactiveSetup(): Promise<Record<string, string>> {
     config['room-id'] = await promptUser('Enter room ID', preset['room-id']);
     config['player-username'] = await promptUser('Enter your username', preset['player-username'] ?? DEFAULTS.playerUsername);
     config['room-pass'] = await promptUser('Enter room password (optional, press Enter to skip)', preset['room-pass'] ?? "");
-    config['gemini-key'] = await promptUser('Enter your Gemini API key', presetGeminiKey);
-    config['gemini-model'] = await promptUser('Enter Gemini model', preset['gemini-model'] ?? DEFAULTS.geminiModel);
+    config['llm-provider'] = normalizeProvider(await promptUser('LLM provider (gemini, openai, ollama, llamacpp)', preset['llm-provider'] ?? DEFAULTS.llmProvider));
+    if (config['llm-provider'] === "gemini") {
+        config['gemini-key'] = await promptUser('Enter your Gemini API key', presetGeminiKey);
+        config['gemini-model'] = await promptUser('Enter Gemini model', preset['gemini-model'] ?? DEFAULTS.geminiModel);
+    } else {
+        config['llm-base-url'] = await promptUser('LLM base URL (press Enter for the provider default)', preset['llm-base-url'] ?? "");
+        config['llm-model'] = await promptUser('LLM model (press Enter for the provider default)', preset['llm-model'] ?? "");
+        config['llm-key'] = await promptUser('LLM API key (optional, press Enter to skip)', preset['llm-key'] ?? "");
+    }
     config['prompt'] = await promptUser('Enter story prompt (leave blank to use preset)', presetPrompt);
     config['max-ai-messages'] = await promptUser('Max AI messages per turn', preset['max-ai-messages'] ?? DEFAULTS.maxAiMessages.toString());
 
@@ -157,7 +233,10 @@ async function interactiveSetup(): Promise<Record<string, string>> {
 // Check if any required arguments are missing
 const hasRoomId = cliArgs["room-id"];
 const hasPlayerUsername = cliArgs["player-username"];
-const hasGeminiKey = cliArgs["gemini-key"] || process.env.GEMINI_KEY;
+// Only the Gemini backend needs a key up front; self-hosted backends usually run without one.
+const usesGemini = normalizeProvider(cliArgs["llm-provider"]) === "gemini";
+const replaysCassette = cliArgs["llm-cassette"] === "replay";
+const hasGeminiKey = !usesGemini || replaysCassette || cliArgs["gemini-key"] || process.env.GEMINI_KEY;
 
 let finalConfig: Record<string, string | boolean>;
 
@@ -183,6 +262,19 @@ if (!hasRoomId || !hasPlayerUsername || !hasGeminiKey) {
     finalConfig = cliArgs;
 }
 
+const cassetteMode = finalConfig["llm-cassette"];
+const cassetteFile = finalConfig["llm-cassette-file"];
+if (cassetteMode !== undefined && ((cassetteMode !== "record" && cassetteMode !== "replay") || typeof cassetteFile !== "string")) {
+    console.error(`\n${colors.red}${colors.bright}Invalid --llm-cassette:${colors.reset} expected "--llm-cassette record|replay <file>"\n`);
+    process.exit(1);
+}
+
+const difficulty = finalConfig.difficulty ?? DEFAULTS.difficulty;
+if (!isDifficulty(difficulty)) {
+    console.error(`\n${colors.red}${colors.bright}Invalid --difficulty:${colors.reset} expected easy, normal, hard or nightmare\n`);
+    process.exit(1);
+}
+
 const CONFIG = {
     roomId: (finalConfig["room-id"] as string) || DEFAULTS.roomId,
     roomPass: (finalConfig["room-pass"] as string) || DEFAULTS.roomPass,
@@ -191,6 +283,35 @@ const CONFIG = {
     maxAiMessages: Number(finalConfig["max-ai-messages"]) || DEFAULTS.maxAiMessages,
     geminiKey: (finalConfig["gemini-key"] as string) || process.env.GEMINI_KEY,
     geminiModel: (finalConfig["gemini-model"] as string) || DEFAULTS.geminiModel,
+    llmProvider: normalizeProvider(finalConfig["llm-provider"]),
+    llmBaseUrl: (finalConfig["llm-base-url"] as string) || undefined,
+    llmModel: (finalConfig["llm-model"] as string) || undefined,
+    llmKey: (finalConfig["llm-key"] as string) || process.env.LLM_API_KEY,
+    llmRepairAttempts: finalConfig["llm-repair-attempts"] !== undefined
+        ? Math.max(0, Number(finalConfig["llm-repair-attempts"]) || 0)
+        : DEFAULTS.llmRepairAttempts,
+    maxTokensPerTrial: Number(finalConfig["max-tokens-per-trial"]) || undefined,
+    maxCost: Number(finalConfig["max-cost"]) || undefined,
+    models: {
+        case: (finalConfig["model-case"] as string) || undefined,
+        speaker: (finalConfig["model-speaker"] as string) || undefined,
+        speech: (finalConfig["model-speech"] as string) || undefined,
+    },
+    difficulty,
+    days: Math.max(1, Math.floor(Number(finalConfig.days)) || DEFAULTS.days),
+    caseAttempts: Number(finalConfig["case-attempts"]) || DEFAULTS.caseAttempts,
+    minContradictions: finalConfig["min-contradictions"] !== undefined
+        ? Math.max(0, Number(finalConfig["min-contradictions"]) || 0)
+        : DEFAULTS.minContradictions,
+    promptsDir: (finalConfig["prompts-dir"] as string) || undefined,
+    saveCase: (finalConfig["save-case"] as string) || undefined,
+    loadCase: (finalConfig["load-case"] as string) || undefined,
+    caseLibrary: (finalConfig["case-library"] as string) || CASE_LIBRARY_PATH,
+    campaign: (finalConfig.campaign as string) || undefined,
+    theme: (finalConfig.theme as string) || undefined,
+    llmCassette: cassetteMode
+        ? { mode: cassetteMode as "record" | "replay", file: cassetteFile as string, lenient: finalConfig["llm-cassette-lenient"] === true }
+        : undefined,
 };
 
 export { CONFIG, DEFAULTS };
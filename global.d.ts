@@ -1,8 +1,23 @@
 import type CourtroomWebSocketClient from "./src/api/courtroom-websocket-client";
+import type { UsageTracker } from "./src/ai/usage-tracker";
+import type { CaseManager } from "./src/ai/case-manager";
+import type { CaseLibrary } from "./src/ai/case-library";
+import type { CaseQueue } from "./src/ai/case-queue";
+import type { Campaign } from "./src/ai/campaign";
 
 declare global {
   // eslint-disable-next-line no-var
   var masterCourt: CourtroomWebSocketClient;
+  // eslint-disable-next-line no-var
+  var usageTracker: UsageTracker;
+  // eslint-disable-next-line no-var
+  var caseManager: CaseManager;
+  // eslint-disable-next-line no-var
+  var caseLibrary: CaseLibrary;
+  // eslint-disable-next-line no-var
+  var caseQueue: CaseQueue;
+  // eslint-disable-next-line no-var
+  var campaign: Campaign | null;
 }
 
 export {};
@@ -4,12 +4,28 @@ import CourtroomWebSocketClient from "./src/api/courtroom-websocket-client";
 import type { MessageDto, PlainMessageDto } from "./src/api/courtroom-websocket-types";
 import {
     CaseManager,
+    type CaseDefinition,
     type CaseState,
     StoryManager,
+    UsageTracker,
+    createCassetteClient,
+    Campaign,
+    CaseLibrary,
+    CaseQueue,
+    buildCase,
+    describeQueuedCase,
+    type QueuedCase,
     createGenAIClient,
-    generateTrialCharacters,
-    generateCasePrompt,
-    generateEvidence,
+    defaultCaseTitle,
+    formatCaseReport,
+    isVisibleAtStart,
+    loadCaseFile,
+    loadPromptTemplates,
+    loadThemePack,
+    parsePlayerCommand,
+    saveCaseFile,
+    type ThemePack,
+    type TrialResult,
 } from "./src/ai";
 import Character from "./src/core/Character";
 import { CONFIG } from "./CONFIG";
@@ -21,6 +37,7 @@ const PLAYER_USERNAME = CONFIG.playerUsername;
 const MAX_AI_MESSAGES = CONFIG.maxAiMessages; // Cap AI sequential messages to prevent long runs away from player input. Judge opening counts towards this limit.
 const GEMINI_KEY = CONFIG.geminiKey;
 const GEMINI_MODEL = CONFIG.geminiModel;
+const LLM_PROVIDER = CONFIG.llmProvider;
 
 let playerId:string; //xxxx-xxxxx-xxxxx
 const aiUsernames = new Set<string>();
@@ -30,44 +47,96 @@ let lastSpeakerId: number | null = null;
 const readingDelayMs = 300; // after text animation, this will add a small delay to allow reading
 let lastSpeakerName: string | null = null;
 
+// Template mistakes should stop the server before any LLM call is made.
+if (CONFIG.promptsDir) {
+    try {
+        const loaded = loadPromptTemplates(CONFIG.promptsDir);
+        console.log(`[prompts] using ${loaded.length ? loaded.join(", ") : "no"} templates from ${CONFIG.promptsDir}`);
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+}
+
 //test:
 globalThis.masterCourt = new CourtroomWebSocketClient();
-const genai = createGenAIClient({
-    apiKey: GEMINI_KEY || "",
-    model: GEMINI_MODEL
+globalThis.usageTracker = new UsageTracker({
+    maxTokens: CONFIG.maxTokensPerTrial,
+    maxCost: CONFIG.maxCost,
+});
+usageTracker.startTrial();
+// Replaying a cassette never touches the network, so no live client is created.
+const liveGenai = CONFIG.llmCassette?.mode === "replay" ? null : createGenAIClient({
+    provider: LLM_PROVIDER,
+    baseUrl: CONFIG.llmBaseUrl,
+    apiKey: (LLM_PROVIDER === "gemini" ? GEMINI_KEY : CONFIG.llmKey) || "",
+    model: LLM_PROVIDER === "gemini" ? GEMINI_MODEL : CONFIG.llmModel,
+    maxRepairAttempts: CONFIG.llmRepairAttempts,
+    usage: usageTracker,
 });
+const genai = CONFIG.llmCassette
+    ? createCassetteClient({ ...CONFIG.llmCassette, client: liveGenai })
+    : liveGenai;
 await Character.fetchCharacterData();
 
 // Track all active connections for cleanup
 const activeConnections: CourtroomWebSocketClient[] = [masterCourt];
 
-const storyManager = new StoryManager({ cooldownMs: 15000, genai });
-const caseManager = new CaseManager({ genai, storyManager });
-const defaultCasePrompt = await generateCasePrompt(genai, PROMPT);
-console.log("Generated case prompt:", defaultCasePrompt);
-const generatedEvidence = await generateEvidence(genai, defaultCasePrompt);
-console.log("Generated evidence:", generatedEvidence);
-const generatedProfiles = await generateTrialCharacters(genai, defaultCasePrompt + "\n\nEvidence: " + generatedEvidence.map((e) => e.name).join(", "));
-console.log("Generated character profiles:", generatedProfiles);
-console.log(`\n[characters] ${generatedProfiles.length} characters generated:`);
-generatedProfiles.forEach(p => {
-    console.log(`  - ${p.name} (role: ${p.role}, id: ${p.id})`);
+const storyManager = new StoryManager({
+    cooldownMs: 15000,
+    genai,
+    usage: usageTracker,
+    model: CONFIG.models.speaker,
 });
+globalThis.caseManager = new CaseManager({
+    genai,
+    storyManager,
+    usage: usageTracker,
+    speechModel: CONFIG.models.speech,
+});
+globalThis.campaign = null;
+if (CONFIG.campaign) {
+    try {
+        campaign = Campaign.open(CONFIG.campaign);
+        console.log(`[campaign] "${campaign.title}", episode ${campaign.nextEpisode}`);
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+}
+// Loaded after the presets so its preset ids can be checked.
+let themePack: ThemePack | null = null;
+if (CONFIG.theme) {
+    try {
+        themePack = loadThemePack(CONFIG.theme);
+        console.log(`[theme] using "${themePack.name}" from ${CONFIG.theme}`);
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+}
+globalThis.caseLibrary = new CaseLibrary(CONFIG.caseLibrary);
+globalThis.caseQueue = new CaseQueue();
+caseQueue.onAdvance(playQueuedCase);
+caseManager.onTrialFinished(recordTrialResult);
+// Server ids of the evidence MasterSocket posted, deleted when the next case starts.
+const postedEvidenceIds: string[] = [];
+
+let generatedCase: CaseDefinition;
+if (CONFIG.loadCase) {
+    try {
+        generatedCase = loadCaseFile(CONFIG.loadCase);
+        console.log(`[case] loaded ${CONFIG.loadCase}, skipping generation`);
+    } catch (error) {
+        console.error((error as Error).message);
+        process.exit(1);
+    }
+} else {
+    generatedCase = await generateCase(PROMPT);
+}
+logCaseSummary(generatedCase);
 
 async function main() {
-    const aiCharacters = generatedProfiles.map((profile) => ({
-        profile,
-        username: profile.name,
-    }));
-
-    aiCharacters.forEach((entry) => aiUsernames.add(entry.username));
-
-    caseManager.createCase({
-        storyPrompt: defaultCasePrompt,
-        characters: generatedProfiles,
-        evidences: generatedEvidence,
-    });
-
     const masterSocket = masterCourt.connect({
         query: {
             username: "MasterSocket",
@@ -105,33 +174,27 @@ async function main() {
         trackTyping(userId);
     });
 
-    caseManager.setMasterSocket(masterCourt);
-
-    // Post generated evidence at startup via master socket
-    generatedEvidence.forEach((item, index) => {
-        masterCourt.addEvidence({
-            evidenceId: index + 1,
-            name: item.name,
-            description: item.description ?? "",
-            iconUrl: item.url || "https://via.placeholder.com/128?text=Evidence",
-            url: item.url ?? "",
-            type: (item.type as "image" | "video") ?? "image",
-        });
+    masterCourt.onEvidenceAdded((evidence) => {
+        if (evidence.username === "MasterSocket") {
+            postedEvidenceIds.push(evidence.id);
+        }
     });
 
-    // Bind all AI characters to the master socket instead of creating individual connections
-    aiCharacters.forEach((entry) => {
-        caseManager.bindCharacterSocket(entry.profile.id, masterCourt);
+    masterCourt.onEvidenceDeleted((id) => {
+        const index = postedEvidenceIds.indexOf(id);
+        if (index >= 0) {
+            postedEvidenceIds.splice(index, 1);
+        }
     });
 
-    // Let the Judge open the session once sockets are connected.
-    setTimeout(() => {
-        // Debug: show storyline (commented out to avoid cluttering courtroom)
-        // masterCourt.sendPlainMessage({
-        //     text: "Storyline: " + caseManager.getCaseState().storyPrompt
-        // });
-        void startJudgeOpening(caseManager.getCaseState());
-    }, 800);
+    caseManager.setMasterSocket(masterCourt);
+
+    startCase(generatedCase);
+    if (CONFIG.saveCase) {
+        // Saved after createCase so the assigned characterIds and poses are kept.
+        saveCaseFile(CONFIG.saveCase, caseManager.getCaseDefinition(), themePack ? { theme: themePack.name } : {});
+        console.log(`[case] saved to ${CONFIG.saveCase}`);
+    }
 
     masterCourt.onConnect(() => {
         console.log("Connected to courtroom API");
@@ -149,6 +212,79 @@ main().catch((error) => {
     process.exit(1);
 });
 
+async function generateCase(prompt: string): Promise<CaseDefinition> {
+    const builtCase = await buildCase(genai, prompt, {
+        model: CONFIG.models.case,
+        attempts: CONFIG.caseAttempts,
+        minContradictions: CONFIG.minContradictions,
+        difficulty: CONFIG.difficulty,
+        campaign,
+        theme: themePack,
+        days: CONFIG.days,
+    });
+    console.log(`\n[case] generation report:\n${formatCaseReport(builtCase.reports)}`);
+    if (!builtCase.solvable) {
+        console.warn("[case] no attempt passed the solvability check, playing the closest one");
+    }
+    return builtCase.definition;
+}
+
+function logCaseSummary(definition: CaseDefinition): void {
+    const profiles = definition.characters ?? [];
+    console.log("Generated case prompt:", definition.storyPrompt);
+    console.log("Generated evidence:", definition.evidences);
+    console.log(`\n[characters] ${profiles.length} characters generated:`);
+    profiles.forEach(p => {
+        console.log(`  - ${p.name} (role: ${p.role}, id: ${p.id})`);
+    });
+    // Only logged locally; the courtroom never sees the truth.
+    const culprit = profiles.find((p) => p.id === definition.truth?.culpritId);
+    console.log(definition.truth ? `[truth] culprit: ${culprit?.name}, ${definition.truth.timeline.length} timeline events` : "[truth] no case truth generated");
+    console.log(`[contradictions] ${definition.contradictions?.length ?? 0} planned (difficulty: ${definition.difficulty ?? "normal"})`);
+    const heldBack = (definition.evidences ?? []).filter((e) => !isVisibleAtStart(e)).length;
+    console.log(`[days] ${definition.days ?? 1} court day(s), ${heldBack} evidence item(s) held back until revealed`);
+}
+
+// Sets up the case, posts its evidence, seats the AI characters and lets the Judge open.
+function startCase(definition: CaseDefinition): void {
+    const profiles = definition.characters ?? [];
+    aiUsernames.clear();
+    profiles.forEach((profile) => aiUsernames.add(profile.name));
+
+    caseManager.createCase(definition);
+
+    // Post the court record via master socket; investigation evidence follows when it is found
+    caseManager.postCourtRecord();
+    caseManager.postCredibility();
+
+    // Bind all AI characters to the master socket instead of creating individual connections
+    profiles.forEach((profile) => {
+        caseManager.bindCharacterSocket(profile.id, masterCourt);
+    });
+
+    // Let the Judge open the session once sockets are connected.
+    setTimeout(() => {
+        void startJudgeOpening(caseManager.getCaseState());
+    }, 800);
+}
+
+// Tears down the current trial and starts the next one from the queue.
+async function playQueuedCase(next: QueuedCase): Promise<void> {
+    console.log(`[queue] starting ${describeQueuedCase(next)}`);
+    const definition = next.source === "library"
+        ? caseLibrary.get(next.id).case
+        : await generateCase(next.prompt ?? PROMPT);
+    logCaseSummary(definition);
+
+    postedEvidenceIds.splice(0).forEach((id) => masterCourt.deleteEvidence(id));
+    lastSpeakerId = null;
+    lastSpeakerName = null;
+    usageTracker.startTrial();
+
+    masterCourt.sendPlainMessage({ text: "[master] Next case!" });
+    startCase(definition);
+}
+
 function buildReplyPrompt(message: MessageDto, state: CaseState): string {
     return [
         "Continue the Ace Attorney style trial.",
@@ -174,6 +310,21 @@ async function handleIncomingPlainMessage(message: MessageDto): Promise<void> {
 
     const username = PLAYER_USERNAME;
     console.log("Player message from", message.userId, "as", username);
+
+    // Press, present, objection and testimony stepping are resolved by the case itself.
+    const command = parsePlayerCommand(message.message.text ?? "");
+    if (command && aiWindowRunning) {
+        console.log("AI window is already running, ignoring command.");
+        return;
+    }
+    if (command) {
+        const action = await caseManager.resolvePlayerCommand(command);
+        console.log(`[defense] ${command.type}: ${action.outcome}`);
+        if (!action.reply) {
+            await playNextCaseIfEnded();
+            return;
+        }
+    }
     lastSpeakerId = null;
 
     storyManager.logSpeech(
@@ -192,15 +343,52 @@ async function handleIncomingPlainMessage(message: MessageDto): Promise<void> {
         return;
     }
 
+    if (caseManager.isTrialEnded()) {
+        console.log("Trial has ended, ignoring message.");
+        return;
+    }
+
     aiWindowRunning = true;
 
     storyManager.beginPlayerTurn(username, MAX_AI_MESSAGES);
     // Note: beginPlayerTurn already sets aiTurnsRemaining, no need to call openAiWindow again
     try {
         await runAiWindow(message);
+    } catch (error) {
+        console.error("[ai window] aborted:", error);
     } finally {
         aiWindowRunning = false;
     }
+
+    if (caseManager.isSegmentComplete()) {
+        await caseManager.advanceSegment().catch((error) => console.error("[case] could not advance the trial day:", error));
+    }
+
+    await playNextCaseIfEnded();
+}
+
+// Logs how the trial ended and, in a campaign, records it as the next episode.
+function recordTrialResult(result: TrialResult): void {
+    const state = caseManager.getCaseState();
+    const culprit = state.characters.find((c) => c.id === result.culpritId)?.name;
+    console.log(`[verdict] ${result.verdict} (${result.reason}), ${result.exposed}/${result.total} contradictions exposed${culprit ? `, culprit ${culprit}` : ""}`);
+
+    // Null when the episode was already recorded by hand with `campaign end`.
+    const record = campaign && caseManager.recordEpisode(campaign, {
+        title: defaultCaseTitle(state.storyPrompt),
+        verdict: result.verdict,
+        summary: result.summary || undefined,
+        culpritId: result.culpritId,
+    });
+    if (record) {
+        console.log(`[campaign] recorded episode ${record.episode}: ${record.title} (${record.verdict})`);
+    }
+}
+
+async function playNextCaseIfEnded(): Promise<void> {
+    if (caseManager.isTrialEnded() && caseQueue.size) {
+        await caseQueue.advance().catch((error) => console.error("[queue] could not start the next case:", error));
+    }
 }
 
 async function runAiWindow(latestPlayerMessage: MessageDto): Promise<void> {
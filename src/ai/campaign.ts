@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import type { CaseState } from "./case-manager";
+import type { CharacterProfile } from "./character-manager";
+
+export type EpisodeVerdict = "guilty" | "not guilty" | "unresolved";
+
+export interface RecurringCharacter {
+  name: string;
+  role?: string;
+  description?: string;
+  characterId?: number; // courtroom preset, reused so they look the same
+  memories: string[]; // long-term, tagged with the episode they come from
+  episodes: number[];
+}
+
+export interface EpisodeRecord {
+  episode: number;
+  title: string;
+  verdict: EpisodeVerdict;
+  defendant?: string;
+  culprit?: string;
+  summary?: string;
+  playedAt: string; // ISO timestamp
+}
+
+export interface CampaignFile {
+  version: 1;
+  title: string;
+  episodes: EpisodeRecord[];
+  characters: RecurringCharacter[];
+  threads: string[]; // unresolved plot threads to pick up later
+}
+
+export interface EpisodeResult {
+  title: string;
+  verdict: EpisodeVerdict;
+  summary?: string;
+  culpritId?: number | null;
+  memories: Map<number, string[]>; // character id -> memories from this episode
+}
+
+// Long-term memories kept per recurring character.
+const MAX_MEMORIES = 12;
+
+/**
+ * A series of trials stored in one JSON file: who appeared, what they remember,
+ * how each episode ended and which threads are still open. Its continuity text
+ * seeds the case and character generators, and recurring characters keep their
+ * preset and memories when they are cast again.
+ */
+export class Campaign {
+  private constructor(readonly file: string, private data: CampaignFile) {}
+
+  // Opens the series file, or starts a new series when it doesn't exist yet.
+  static open(file: string): Campaign {
+    if (!fs.existsSync(file)) {
+      return new Campaign(file, {
+        version: 1,
+        title: path.basename(file, path.extname(file)),
+        episodes: [],
+        characters: [],
+        threads: [],
+      });
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, "utf8")) as CampaignFile;
+    if (data.version !== 1 || !Array.isArray(data.episodes) || !Array.isArray(data.characters)) {
+      throw new Error(`Unsupported campaign file ${file}`);
+    }
+
+    return new Campaign(file, { ...data, threads: data.threads ?? [] });
+  }
+
+  get title(): string {
+    return this.data.title;
+  }
+
+  get nextEpisode(): number {
+    return this.data.episodes.length + 1;
+  }
+
+  getEpisodes(): EpisodeRecord[] {
+    return [...this.data.episodes];
+  }
+
+  getCharacters(): RecurringCharacter[] {
+    return [...this.data.characters];
+  }
+
+  getThreads(): string[] {
+    return [...this.data.threads];
+  }
+
+  addThread(thread: string): void {
+    this.data.threads.push(thread);
+    this.save();
+  }
+
+  resolveThread(index: number): string | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.data.threads.length) {
+      return undefined;
+    }
+
+    const [removed] = this.data.threads.splice(index, 1);
+    this.save();
+    return removed;
+  }
+
+  // Series so far, for the story and character prompts. Empty for episode 1.
+  describeContinuity(): string {
+    if (!this.data.episodes.length && !this.data.characters.length && !this.data.threads.length) {
+      return "";
+    }
+
+    const episodes = this.data.episodes.map((e) =>
+      `- Episode ${e.episode} "${e.title}": ${e.verdict}${e.defendant ? ` for ${e.defendant}` : ""}${e.culprit ? `, real culprit ${e.culprit}` : ""}${e.summary ? `. ${e.summary}` : ""}`,
+    );
+    const characters = this.data.characters.map((c) =>
+      `- ${c.name} (${c.role ?? "Witness"}, episodes ${c.episodes.join(", ")})${c.description ? `: ${c.description}` : ""}${c.memories.length ? ` Remembers: ${c.memories.slice(-3).join("; ")}` : ""}`,
+    );
+
+    return [
+      `This is episode ${this.nextEpisode} of the series "${this.data.title}".`,
+      episodes.length ? `Previous episodes:\n${episodes.join("\n")}` : "",
+      this.data.threads.length ? `Unresolved threads:\n${this.data.threads.map((t) => `- ${t}`).join("\n")}` : "",
+      characters.length ? `Recurring characters who may return (reuse their exact name):\n${characters.join("\n")}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  // Gives returning characters their preset and long-term memories.
+  applyRecurring(profiles: CharacterProfile[]): CharacterProfile[] {
+    return profiles.map((profile) => {
+      const recurring = this.findCharacter(profile.name);
+      if (!recurring) {
+        return profile;
+      }
+
+      return {
+        ...profile,
+        characterId: profile.characterId ?? recurring.characterId,
+        memories: [...(profile.memories ?? []), ...recurring.memories],
+      };
+    });
+  }
+
+  // Appends the finished episode and merges its cast and memories into the series.
+  recordEpisode(state: CaseState, result: EpisodeResult): EpisodeRecord {
+    const episode = this.nextEpisode;
+    const nameOf = (id: number | null | undefined) => state.characters.find((c) => c.id === id)?.name;
+    const defendant = state.characters.find((c) => c.role?.toLowerCase() === "defendant")?.name;
+
+    const record: EpisodeRecord = {
+      episode,
+      title: result.title,
+      verdict: result.verdict,
+      defendant,
+      culprit: nameOf(result.culpritId),
+      summary: result.summary,
+      playedAt: new Date().toISOString(),
+    };
+    this.data.episodes.push(record);
+
+    for (const profile of state.characters) {
+      const recurring = this.findCharacter(profile.name) ?? this.addCharacter(profile);
+      recurring.role = profile.role ?? recurring.role;
+      recurring.description = profile.description ?? recurring.description;
+      recurring.characterId = profile.characterId ?? recurring.characterId;
+      if (!recurring.episodes.includes(episode)) {
+        recurring.episodes.push(episode);
+      }
+
+      const memories = result.memories.get(profile.id) ?? [];
+      recurring.memories = [...recurring.memories, ...memories.map((entry) => `Ep ${episode}: ${entry}`)].slice(-MAX_MEMORIES);
+    }
+
+    this.save();
+    return record;
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.data, null, 2), "utf8");
+  }
+
+  private findCharacter(name: string): RecurringCharacter | undefined {
+    const key = name.trim().toLowerCase();
+    return this.data.characters.find((c) => c.name.trim().toLowerCase() === key);
+  }
+
+  private addCharacter(profile: CharacterProfile): RecurringCharacter {
+    const recurring: RecurringCharacter = { name: profile.name, memories: [], episodes: [] };
+    this.data.characters.push(recurring);
+    return recurring;
+  }
+}
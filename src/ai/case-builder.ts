@@ -0,0 +1,168 @@
+import type { GenAIClient } from "./genai-client";
+import type { CaseDefinition } from "./case-manager";
+import { isCourtOfficial } from "./character-manager";
+import { generateCasePrompt } from "./story-generator";
+import { generateEvidence, isFallbackEvidence } from "./evidence-generator";
+import { generateTrialCharacters } from "./character-generator";
+import { generateCaseTruth } from "./truth-generator";
+import { generateContradictions } from "./contradiction-generator";
+import { getDifficultySettings, type Difficulty } from "./difficulty";
+import type { Campaign } from "./campaign";
+import { scheduleEvidence } from "./trial-days";
+import { planEvidenceReveals } from "./evidence-reveal";
+import { applyThemePresets, checkThemePack, compileThemeConstraints, getThemePresetIds, type ThemePack } from "./theme-pack";
+
+export interface CaseBuildOptions {
+  model?: string;
+  attempts?: number; // generations to try before settling for the best one (default 3)
+  minContradictions?: number; // reachable contradictions a case needs (default 2)
+  difficulty?: Difficulty;
+  campaign?: Campaign | null; // continuity and recurring characters for the next episode
+  theme?: ThemePack | null; // constraints the case is generated with and checked against
+  days?: number; // court days; evidence is held back for the investigations between them (default 1)
+}
+
+export interface CaseAttemptReport {
+  attempt: number;
+  problems: string[]; // empty when the case passed
+}
+
+export interface CaseBuildResult {
+  definition: CaseDefinition;
+  reports: CaseAttemptReport[];
+  solvable: boolean;
+}
+
+// Roles the character prompt asks for, with how many of each.
+const REQUIRED_ROLES: Array<{ role: string; count: number }> = [
+  { role: "prosecutor", count: 1 },
+  { role: "judge", count: 1 },
+  { role: "witness", count: 2 },
+  { role: "defendant", count: 1 },
+];
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_MIN_CONTRADICTIONS = 2;
+
+/**
+ * Generates premise, evidence, characters, truth and contradictions, and
+ * regenerates the whole case while it fails `checkSolvability`. When every
+ * attempt fails, the attempt with the fewest problems is returned with
+ * `solvable: false` so the caller can decide whether to play it anyway.
+ */
+export async function buildCase(
+  genai: GenAIClient | null,
+  extraText: string,
+  options: CaseBuildOptions = {},
+): Promise<CaseBuildResult> {
+  // Without a client every attempt would produce the same fallback case.
+  const attempts = genai ? Math.max(1, options.attempts ?? DEFAULT_ATTEMPTS) : 1;
+  const minContradictions = Math.max(0, options.minContradictions ?? DEFAULT_MIN_CONTRADICTIONS);
+  const difficulty = options.difficulty ?? "normal";
+  const days = Math.max(1, options.days ?? 1);
+  const plannedContradictions = Math.max(getDifficultySettings(difficulty).contradictions, minContradictions);
+  const continuity = options.campaign?.describeContinuity() ?? "";
+  const theme = options.theme ? compileThemeConstraints(options.theme) : null;
+  const presetIds = options.theme ? getThemePresetIds(options.theme) : undefined;
+  const generatorOptions = { model: options.model };
+  const reports: CaseAttemptReport[] = [];
+  let best: { definition: CaseDefinition; problems: string[] } | null = null;
+
+  for (let attempt = 1; attempt <= attempts; attempt += 1) {
+    const storyPrompt = await generateCasePrompt(genai, extraText, { ...generatorOptions, continuity, theme: theme?.story });
+    const evidences = await generateEvidence(genai, storyPrompt, { ...generatorOptions, difficulty, theme: theme?.evidence });
+    const generatedCharacters = await generateTrialCharacters(
+      genai,
+      storyPrompt + "\n\nEvidence: " + evidences.map((e) => e.name).join(", "),
+      { ...generatorOptions, continuity, theme: theme?.characters, presetIds },
+    );
+    const themedCharacters = options.theme ? applyThemePresets(options.theme, generatedCharacters) : generatedCharacters;
+    const characters = options.campaign?.applyRecurring(themedCharacters) ?? themedCharacters;
+    const truth = await generateCaseTruth(genai, storyPrompt, characters, evidences, generatorOptions);
+    const contradictions = (
+      await generateContradictions(genai, storyPrompt, characters, evidences, truth, {
+        ...generatorOptions,
+        count: plannedContradictions + 1, // one spare, entries with bad ids are dropped
+      })
+    ).slice(0, plannedContradictions);
+
+    const definition: CaseDefinition = {
+      storyPrompt,
+      // Later evidence turns up in investigations, or as earlier contradictions fall.
+      evidences: days > 1 ? scheduleEvidence(evidences, contradictions, days) : planEvidenceReveals(evidences, contradictions),
+      characters,
+      truth,
+      contradictions,
+      difficulty,
+      days,
+    };
+    const problems = checkSolvability(definition, { minContradictions, theme: options.theme });
+    reports.push({ attempt, problems });
+
+    if (!problems.length) {
+      return { definition, reports, solvable: true };
+    }
+
+    if (!best || problems.length < best.problems.length) {
+      best = { definition, problems };
+    }
+  }
+
+  return { definition: best!.definition, reports, solvable: false };
+}
+
+/**
+ * Lists the reasons a generated case can't be won: missing roles, no culprit,
+ * too few contradictions reachable through the evidence, fallback evidence,
+ * and anything that breaks the theme pack when one is given.
+ */
+export function checkSolvability(
+  definition: CaseDefinition,
+  options: Pick<CaseBuildOptions, "minContradictions" | "theme"> = {},
+): string[] {
+  const minContradictions = options.minContradictions ?? DEFAULT_MIN_CONTRADICTIONS;
+  const characters = definition.characters ?? [];
+  const evidences = definition.evidences ?? [];
+  const problems: string[] = [];
+
+  if (isFallbackEvidence(evidences)) {
+    problems.push("evidence generation failed; the built-in fallback evidence was used");
+  }
+
+  for (const { role, count } of REQUIRED_ROLES) {
+    const found = characters.filter((c) => c.role?.toLowerCase() === role).length;
+    if (found < count) {
+      problems.push(`needs ${count} character(s) with role ${role}, found ${found}`);
+    }
+  }
+
+  const culprit = characters.find((c) => c.id === definition.truth?.culpritId);
+  if (!definition.truth) {
+    problems.push("no case truth: nobody is the culprit");
+  } else if (!culprit || isCourtOfficial(culprit)) {
+    problems.push(`culprit id ${definition.truth.culpritId} is not a witness or defendant`);
+  }
+
+  const witnessIds = new Set(characters.filter((c) => !isCourtOfficial(c)).map((c) => c.id));
+  const evidenceIds = new Set(evidences.map((e) => e.id));
+  const reachable = (definition.contradictions ?? []).filter((c) =>
+    witnessIds.has(c.witnessId) && evidenceIds.has(c.evidenceId),
+  );
+  if (reachable.length < minContradictions) {
+    problems.push(`only ${reachable.length} contradiction(s) reachable through the evidence, need ${minContradictions}`);
+  }
+
+  if (options.theme) {
+    problems.push(...checkThemePack(definition, options.theme));
+  }
+
+  return problems;
+}
+
+export function formatCaseReport(reports: CaseAttemptReport[]): string {
+  return reports
+    .map(({ attempt, problems }) => problems.length
+      ? `Attempt ${attempt}: rejected\n${problems.map((problem) => `  - ${problem}`).join("\n")}`
+      : `Attempt ${attempt}: solvable`)
+    .join("\n");
+}
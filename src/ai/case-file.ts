@@ -0,0 +1,266 @@
+import fs from "fs";
+import path from "path";
+import { Type } from "@google/genai";
+import type { JsonSchema } from "./genai-client";
+import type { CaseDefinition } from "./case-manager";
+import { validateAgainstSchema } from "./schema-validator";
+import { DIFFICULTIES } from "./difficulty";
+
+export const CASE_FILE_VERSION = 2;
+
+// Library metadata; not used to play the case.
+export interface CaseMeta {
+  title: string;
+  theme?: string;
+  tags: string[];
+  rating?: number; // 1-5
+}
+
+export interface CaseFile {
+  version: typeof CASE_FILE_VERSION;
+  savedAt: string; // ISO timestamp
+  meta: CaseMeta;
+  case: CaseDefinition;
+}
+
+export class CaseFileError extends Error {
+  constructor(readonly file: string, readonly problems: string[]) {
+    super(`Invalid case file ${file}:\n${problems.map((problem) => `- ${problem}`).join("\n")}`);
+    this.name = "CaseFileError";
+  }
+}
+
+type RawCaseFile = Record<string, unknown> & { version: number };
+
+// Upgrades a file from version N to N + 1. Add an entry whenever
+// CASE_FILE_VERSION is bumped so older files keep loading.
+const MIGRATIONS: Record<number, (file: RawCaseFile) => RawCaseFile> = {
+  // v2 added library metadata.
+  1: (file) => ({
+    ...file,
+    version: 2,
+    meta: { title: defaultCaseTitle((file.case as CaseDefinition | undefined)?.storyPrompt ?? ""), tags: [] },
+  }),
+};
+
+/**
+ * Writes a finished case (with the characterIds/poses CaseManager picked and
+ * the hidden truth) so the same trial can be played again or shared.
+ */
+export function saveCaseFile(file: string, definition: CaseDefinition, meta?: Partial<CaseMeta>): CaseFile {
+  const contents: CaseFile = {
+    version: CASE_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    meta: { title: defaultCaseTitle(definition.storyPrompt), tags: [], ...meta },
+    case: definition,
+  };
+
+  writeCaseFile(file, contents);
+  return contents;
+}
+
+export function writeCaseFile(file: string, contents: CaseFile): void {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(contents, null, 2), "utf8");
+}
+
+export function loadCaseFile(file: string): CaseDefinition {
+  return readCaseFile(file).case;
+}
+
+// Reads, migrates and validates a case file. Throws CaseFileError listing every problem.
+export function readCaseFile(file: string): CaseFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new CaseFileError(file, [(error as Error).message]);
+  }
+
+  return parseCaseFile(raw, file);
+}
+
+// First sentence of the premise, shortened; used until someone renames the case.
+export function defaultCaseTitle(storyPrompt: string): string {
+  const sentence = storyPrompt.trim().split(/(?<=[.!?])\s/)[0] ?? "";
+  return sentence.length > 60 ? `${sentence.slice(0, 57).trimEnd()}...` : sentence || "Untitled case";
+}
+
+export function parseCaseFile(raw: unknown, file: string = "<case>"): CaseFile {
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new CaseFileError(file, ["$.version: missing or not an integer"]);
+  }
+  if (version > CASE_FILE_VERSION) {
+    throw new CaseFileError(file, [`$.version: ${version} is newer than this build supports (${CASE_FILE_VERSION})`]);
+  }
+
+  let migrated = raw as RawCaseFile;
+  for (let from = version; from < CASE_FILE_VERSION; from += 1) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) {
+      throw new CaseFileError(file, [`$.version: no migration from version ${from}`]);
+    }
+    migrated = migrate(migrated);
+  }
+
+  const problems = validateAgainstSchema(migrated, CASE_FILE_SCHEMA);
+  const parsed = migrated as unknown as CaseFile;
+  problems.push(...checkReferences(parsed.case));
+  if (problems.length) {
+    throw new CaseFileError(file, problems);
+  }
+
+  return parsed;
+}
+
+// Cross-field checks the schema can't express: truth, contradictions and
+// evidence reveal conditions must point at things that exist in the file.
+function checkReferences(definition: CaseDefinition | undefined): string[] {
+  if (!definition) {
+    return [];
+  }
+
+  const characterIds = new Set((definition.characters ?? []).map((c) => c.id));
+  const evidenceIds = new Set((definition.evidences ?? []).map((e) => e.id));
+  const problems: string[] = [];
+
+  if (definition.truth && !characterIds.has(definition.truth.culpritId)) {
+    problems.push(`$.case.truth.culpritId: no character with id ${definition.truth.culpritId}`);
+  }
+
+  (definition.contradictions ?? []).forEach((c, index) => {
+    if (!characterIds.has(c.witnessId)) {
+      problems.push(`$.case.contradictions[${index}].witnessId: no character with id ${c.witnessId}`);
+    }
+    if (!evidenceIds.has(c.evidenceId)) {
+      problems.push(`$.case.contradictions[${index}].evidenceId: no evidence with id "${c.evidenceId}"`);
+    }
+  });
+
+  const contradictionIds = new Set((definition.contradictions ?? []).map((c) => c.id));
+  (definition.evidences ?? []).forEach(({ reveal }, index) => {
+    const path = `$.case.evidences[${index}].reveal`;
+    if (reveal?.when === "contradiction" && !contradictionIds.has(reveal.contradictionId)) {
+      problems.push(`${path}.contradictionId: no contradiction with id "${reveal.contradictionId}"`);
+    }
+    if (reveal?.when === "pressed" && !characterIds.has(reveal.characterId)) {
+      problems.push(`${path}.characterId: no character with id ${reveal.characterId}`);
+    }
+    if (reveal && reveal.when !== "investigation" && reveal.by !== undefined && !characterIds.has(reveal.by)) {
+      problems.push(`${path}.by: no character with id ${reveal.by}`);
+    }
+  });
+
+  return problems;
+}
+
+const CASE_FILE_SCHEMA: JsonSchema = {
+  type: Type.OBJECT,
+  required: ["version", "meta", "case"],
+  properties: {
+    version: { type: Type.INTEGER },
+    savedAt: { type: Type.STRING },
+    meta: {
+      type: Type.OBJECT,
+      required: ["title", "tags"],
+      properties: {
+        title: { type: Type.STRING },
+        theme: { type: Type.STRING },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        rating: { type: Type.INTEGER, enum: ["1", "2", "3", "4", "5"] },
+      },
+    },
+    case: {
+      type: Type.OBJECT,
+      required: ["storyPrompt", "evidences", "characters"],
+      properties: {
+        storyPrompt: { type: Type.STRING },
+        keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+        difficulty: { type: Type.STRING, enum: DIFFICULTIES },
+        days: { type: Type.INTEGER },
+        evidences: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            required: ["id", "name"],
+            properties: {
+              id: { type: Type.STRING },
+              name: { type: Type.STRING },
+              description: { type: Type.STRING },
+              type: { type: Type.STRING },
+              url: { type: Type.STRING },
+              visibility: { type: Type.STRING, enum: ["visible", "hidden", "retracted"] },
+              reveal: {
+                type: Type.OBJECT,
+                required: ["when"],
+                properties: {
+                  when: { type: Type.STRING, enum: ["keyPoint", "contradiction", "pressed", "investigation"] },
+                  keyPoint: { type: Type.INTEGER },
+                  contradictionId: { type: Type.STRING },
+                  characterId: { type: Type.INTEGER },
+                  day: { type: Type.INTEGER },
+                  by: { type: Type.INTEGER },
+                },
+              },
+            },
+          },
+        },
+        characters: {
+          type: Type.ARRAY,
+          minItems: "1",
+          items: {
+            type: Type.OBJECT,
+            required: ["id", "name"],
+            properties: {
+              id: { type: Type.INTEGER },
+              name: { type: Type.STRING },
+              description: { type: Type.STRING },
+              isHuman: { type: Type.BOOLEAN },
+              initialPoseId: { type: Type.INTEGER },
+              role: { type: Type.STRING },
+              characterId: { type: Type.INTEGER },
+              disguised: { type: Type.BOOLEAN },
+            },
+          },
+        },
+        truth: {
+          type: Type.OBJECT,
+          nullable: true,
+          required: ["culpritId", "motive", "method", "timeline"],
+          properties: {
+            culpritId: { type: Type.INTEGER },
+            motive: { type: Type.STRING },
+            method: { type: Type.STRING },
+            timeline: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                required: ["time", "event", "knownBy"],
+                properties: {
+                  time: { type: Type.STRING },
+                  event: { type: Type.STRING },
+                  knownBy: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                },
+              },
+            },
+          },
+        },
+        contradictions: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            required: ["id", "witnessId", "claim", "evidenceId", "explanation"],
+            properties: {
+              id: { type: Type.STRING },
+              witnessId: { type: Type.INTEGER },
+              claim: { type: Type.STRING },
+              evidenceId: { type: Type.STRING },
+              explanation: { type: Type.STRING },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import type { CaseDefinition } from "./case-manager";
+import { defaultCaseTitle, readCaseFile, saveCaseFile, writeCaseFile, type CaseFile, type CaseMeta } from "./case-file";
+
+export interface CaseLibraryEntry extends CaseFile {
+  id: string; // file name without .json
+}
+
+/**
+ * A directory of case files (one `<id>.json` per case) with library metadata:
+ * title, theme, tags and a 1-5 rating. Files that fail to load are skipped
+ * with a warning so one broken case doesn't hide the rest.
+ */
+export class CaseLibrary {
+  constructor(readonly dir: string) {}
+
+  list(): CaseLibraryEntry[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.dir)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((file) => {
+        try {
+          return [{ id: path.basename(file, ".json"), ...readCaseFile(path.join(this.dir, file)) }];
+        } catch (error) {
+          console.warn(`[library] skipping ${file}:`, (error as Error).message);
+          return [];
+        }
+      })
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  get(id: string): CaseLibraryEntry {
+    return { id, ...readCaseFile(this.fileFor(id)) };
+  }
+
+  add(definition: CaseDefinition, meta: Partial<CaseMeta> = {}): CaseLibraryEntry {
+    const id = this.uniqueId(slugify(meta.title ?? defaultCaseTitle(definition.storyPrompt)));
+    return { id, ...saveCaseFile(this.fileFor(id), definition, meta) };
+  }
+
+  tag(id: string, tags: string[]): CaseLibraryEntry {
+    return this.update(id, (meta) => ({
+      ...meta,
+      tags: Array.from(new Set([...meta.tags, ...tags.map((tag) => tag.toLowerCase())])),
+    }));
+  }
+
+  untag(id: string, tags: string[]): CaseLibraryEntry {
+    const removed = new Set(tags.map((tag) => tag.toLowerCase()));
+    return this.update(id, (meta) => ({ ...meta, tags: meta.tags.filter((tag) => !removed.has(tag)) }));
+  }
+
+  rate(id: string, rating: number): CaseLibraryEntry {
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new Error(`Rating must be a whole number from 1 to 5, got ${rating}`);
+    }
+
+    return this.update(id, (meta) => ({ ...meta, rating }));
+  }
+
+  setTheme(id: string, theme: string): CaseLibraryEntry {
+    return this.update(id, (meta) => ({ ...meta, theme }));
+  }
+
+  setTitle(id: string, title: string): CaseLibraryEntry {
+    return this.update(id, (meta) => ({ ...meta, title }));
+  }
+
+  // Cases where every word appears in the title, theme, difficulty or tags.
+  search(query: string): CaseLibraryEntry[] {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return this.list().filter((entry) => {
+      const haystack = [
+        entry.id,
+        entry.meta.title,
+        entry.meta.theme ?? "",
+        entry.case.difficulty ?? "normal",
+        ...entry.meta.tags,
+      ].join(" ").toLowerCase();
+      return words.every((word) => haystack.includes(word));
+    });
+  }
+
+  private update(id: string, change: (meta: CaseMeta) => CaseMeta): CaseLibraryEntry {
+    const entry = this.get(id);
+    const updated: CaseFile = { version: entry.version, savedAt: entry.savedAt, meta: change(entry.meta), case: entry.case };
+    writeCaseFile(this.fileFor(id), updated);
+    return { id, ...updated };
+  }
+
+  private fileFor(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid case id "${id}"`);
+    }
+
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private uniqueId(base: string): string {
+    let id = base;
+    for (let n = 2; fs.existsSync(this.fileFor(id)); n += 1) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").slice(0, 40).replace(/^-+|-+$/g, "") || "case";
+}
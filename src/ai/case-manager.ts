@@ -1,8 +1,35 @@
-import type { GenAIClient } from "./genai-client";
-import { CharacterManager, type CharacterProfile } from "./character-manager";
+import type { ChatTurn, GenAIClient } from "./genai-client";
+import { CharacterManager, isTestifying, type CharacterProfile } from "./character-manager";
 import { StoryManager, type SpeakerCandidate, type SpeechDraft } from "./story-manager";
 import type CourtroomWebSocketClient from "../api/courtroom-websocket-client";
 import Character, { type CharacterData, type CharacterState } from "../core/Character";
+import type { CircuitState } from "./circuit-breaker";
+import type { UsageTracker } from "./usage-tracker";
+import { describeTruthFor, type CaseTruth } from "./truth-generator";
+import type { Contradiction } from "./contradiction-generator";
+import { getDifficultySettings, type Difficulty } from "./difficulty";
+import {
+  FIRST_SEGMENT,
+  courtDayTarget,
+  describeSegment,
+  isInvestigation,
+  nextSegment,
+  type TrialSegment,
+} from "./trial-days";
+import {
+  foundOnDay,
+  isVisibleAtStart,
+  matchesReveal,
+  type EvidenceReveal,
+  type EvidenceVisibility,
+  type RevealTrigger,
+} from "./evidence-reveal";
+import { TrialPhaseMachine, type PhaseContext, type TrialPhase } from "./trial-phase";
+import { generateTestimony, type TestimonyStatement } from "./testimony-generator";
+import { MessagePopup, type CreateMessageDto } from "../api/courtroom-websocket-types";
+import { findMentionedEvidence, matchEvidence, type PlayerCommand } from "./player-commands";
+import { detectResolution, type ResolutionReason, type TrialResult } from "./verdict";
+import type { Campaign, EpisodeRecord, EpisodeResult, EpisodeVerdict } from "./campaign";
 
 export interface EvidenceItem {
   id: string;
@@ -10,6 +37,8 @@ export interface EvidenceItem {
   description?: string;
   type?: string;
   url?: string;
+  visibility?: EvidenceVisibility; // at the start of the trial; "hidden" when `reveal` is set
+  reveal?: EvidenceReveal;
 }
 
 export interface CaseDefinition {
@@ -17,13 +46,26 @@ export interface CaseDefinition {
   keyPoints?: string[];
   evidences?: EvidenceItem[];
   characters?: CharacterProfile[];
+  truth?: CaseTruth | null;
+  contradictions?: Contradiction[];
+  difficulty?: Difficulty;
+  days?: number; // court days, each after the first preceded by an investigation (default 1)
 }
 
+// Everything here may be shown in the courtroom; the case truth is kept apart.
 export interface CaseState {
   storyPrompt: string;
   keyPoints: string[];
   evidences: EvidenceItem[];
   characters: CharacterProfile[];
+  difficulty: Difficulty;
+  days: number;
+  segment: TrialSegment;
+  phase: TrialPhase;
+  witnessOnStand: number | null; // character id
+  testimony: string[]; // statements of the witness on the stand, once delivered
+  currentStatement: number | null; // index into `testimony` during the cross-examination
+  credibility: { remaining: number; max: number }; // the defense loses at 0
 }
 
 export interface NextBeatOptions {
@@ -45,37 +87,129 @@ export interface NextBeatResult {
   wantsContinue?: boolean;
 }
 
+// How the court took a defense action; see CaseManager.resolvePlayerCommand.
+export type PlayerActionOutcome =
+  | "stepped" // moved through the testimony
+  | "pressed"
+  | "exposed" // the evidence contradicts the statement
+  | "wrong-evidence" // the evidence proves nothing against the statement
+  | "needs-evidence" // objection to a false statement, but nothing presented
+  | "baseless" // objection to a statement that holds up
+  | "unknown-evidence" // nothing in the court record by that name
+  | "unavailable"; // no witness on the stand, or no testimony to step through
+
+export interface PlayerActionResult {
+  outcome: PlayerActionOutcome;
+  reply: boolean; // the court reacts to it, so an AI window should run
+  statement?: TestimonyStatement | null;
+  evidence?: EvidenceItem;
+  contradiction?: Contradiction;
+}
+
 export interface CaseManagerOptions {
   genai?: GenAIClient | null;
   storyManager?: StoryManager;
+  usage?: UsageTracker;
+  speechModel?: string; // model for character lines; the client default otherwise
 }
 
 type CharacterSide = CharacterData["side"];
 
+// Pause between testimony statements so they can be read, plus per character.
+const STATEMENT_DELAY_MS = 1500;
+const STATEMENT_DELAY_PER_CHAR_MS = 60;
+
 export class CaseManager {
   private genai: GenAIClient | null;
   private storyManager: StoryManager;
   private storyPrompt = "";
-  private evidences: EvidenceItem[] = [];
+  private truth: CaseTruth | null = null;
+  private contradictions: Contradiction[] = [];
+  private exposedContradictions = new Set<string>();
+  private difficulty: Difficulty = "normal";
+  private evidences: EvidenceItem[] = []; // the court record
+  private pendingEvidence: EvidenceItem[] = []; // hidden until their reveal condition is met
+  private retractedEvidence: EvidenceItem[] = [];
+  private revealQueue: EvidenceItem[] = []; // conditions met, announced before the next beat
+  private postedEvidenceIds = new Map<string, string>(); // evidence id -> courtroom id, for deleteEvidence
+  private days = 1;
+  private segment: TrialSegment = FIRST_SEGMENT;
+  private phase = new TrialPhaseMachine();
+  private stagedPhase: TrialPhase | null = null; // phase whose entry beat (testimony, replay) has run
+  private testimonies = new Map<number, TestimonyStatement[]>(); // witness id -> statements, once generated
+  private currentStatement = 0; // statement of the witness on the stand shown in the cross-examination
+  private defenseAction: string | null = null; // how the last defense action went, for the next line
+  private credibility = 0; // mistakes the defense can still afford
+  private maxCredibility = 0;
+  private trialListeners: Array<(result: TrialResult) => void> = [];
+  private trialResult: TrialResult | null = null; // the verdict, once one was handed down
+  private episode: EpisodeRecord | null = null; // this trial's campaign episode, once recorded
   private characters = new Map<number, CharacterManager>();
   private masterSocket: CourtroomWebSocketClient | null = null;
   private usedCharacterIds = new Set<number>();
   private readonly disallowedCharacterIds = new Set<number>([1]); // Phoenix Wright preset
+  private inRecess = false;
+  private usage: UsageTracker | null;
+  private trialEnded = false;
+  private speechModel?: string;
+  private caseBible: string | null = null; // memoized; reset whenever the static case data changes
 
   constructor(options: CaseManagerOptions = {}) {
     this.genai = options.genai ?? null;
-    this.storyManager = options.storyManager ?? new StoryManager({ genai: this.genai });
+    this.usage = options.usage ?? null;
+    this.speechModel = options.speechModel;
+    this.storyManager = options.storyManager ?? new StoryManager({ genai: this.genai, usage: this.usage ?? undefined });
+    this.genai?.onCircuitStateChange?.((state) => void this.handleCircuitState(state));
   }
 
   createCase(definition: CaseDefinition): CaseState {
+    this.reset();
     this.storyPrompt = definition.storyPrompt;
-    this.evidences = definition.evidences ? [...definition.evidences] : [];
+    this.truth = definition.truth ?? null;
+    this.contradictions = definition.contradictions ? [...definition.contradictions] : [];
+    this.difficulty = definition.difficulty ?? "normal";
+    this.maxCredibility = getDifficultySettings(this.difficulty).mistakesAllowed;
+    this.credibility = this.maxCredibility;
+    this.days = Math.max(1, definition.days ?? 1);
+    this.evidences = (definition.evidences ?? []).filter(isVisibleAtStart);
+    this.pendingEvidence = (definition.evidences ?? []).filter((e) => !isVisibleAtStart(e) && e.visibility !== "retracted");
+    this.retractedEvidence = (definition.evidences ?? []).filter((e) => e.visibility === "retracted");
     this.storyManager.setKeyPoints(definition.keyPoints ?? []);
     this.createCharacterSet(definition.characters ?? []);
 
     return this.getCaseState();
   }
 
+  // Drops the current case and the StoryManager transcript so another can start.
+  reset(): void {
+    this.storyPrompt = "";
+    this.evidences = [];
+    this.pendingEvidence = [];
+    this.retractedEvidence = [];
+    this.revealQueue = [];
+    this.postedEvidenceIds.clear();
+    this.days = 1;
+    this.segment = FIRST_SEGMENT;
+    this.phase.reset();
+    this.stagedPhase = null;
+    this.testimonies.clear();
+    this.currentStatement = 0;
+    this.defenseAction = null;
+    this.credibility = 0;
+    this.maxCredibility = 0;
+    this.characters.clear();
+    this.usedCharacterIds.clear();
+    this.truth = null;
+    this.contradictions = [];
+    this.exposedContradictions.clear();
+    this.difficulty = "normal";
+    this.trialEnded = false;
+    this.trialResult = null;
+    this.episode = null;
+    this.caseBible = null;
+    this.storyManager.reset();
+  }
+
   getCaseState(): CaseState {
     return {
       storyPrompt: this.storyPrompt,
@@ -90,21 +224,195 @@ export class CaseManager {
         characterId: character.getCharacterId(),
         role: character.role,
       })),
+      difficulty: this.difficulty,
+      days: this.days,
+      segment: { ...this.segment },
+      phase: this.phase.getPhase(),
+      witnessOnStand: this.phase.getWitnessId(),
+      testimony: this.getTestimony().map((statement) => statement.text),
+      currentStatement: this.getCurrentStatement() ? this.currentStatement : null,
+      credibility: { remaining: this.credibility, max: this.maxCredibility },
     };
   }
 
+  // Everything needed to replay this case, including the hidden parts.
+  getCaseDefinition(): CaseDefinition {
+    const { storyPrompt, keyPoints, evidences, characters, difficulty, days } = this.getCaseState();
+    return {
+      storyPrompt,
+      keyPoints,
+      evidences: [...evidences, ...this.pendingEvidence, ...this.retractedEvidence],
+      characters,
+      difficulty,
+      days,
+      truth: this.truth,
+      contradictions: [...this.contradictions],
+    };
+  }
+
+  // Server-side only: never send this to the courtroom.
+  getCaseTruth(): CaseTruth | null {
+    return this.truth;
+  }
+
+  // Server-side only, like the case truth.
+  getContradictions(): Contradiction[] {
+    return [...this.contradictions];
+  }
+
+  getExposedContradictions(): Contradiction[] {
+    return this.contradictions.filter((c) => this.exposedContradictions.has(c.id));
+  }
+
+  // The defense pressed `characterId` on their testimony.
+  recordPress(characterId: number): void {
+    this.triggerReveals({ type: "pressed", characterId });
+  }
+
+  /**
+   * Resolves a press, present or objection against the planned contradictions
+   * instead of leaving it to the model: presenting the evidence a statement's
+   * claim is planned against exposes it, anything else fails. Outside a
+   * cross-examination the evidence may target any claim of the witness on the
+   * stand. The outcome is passed on to the next character line. Wrong
+   * evidence and baseless objections cost credibility; once it runs out the
+   * defendant is found guilty and the court doesn't reply.
+   */
+  async resolvePlayerCommand(command: PlayerCommand): Promise<PlayerActionResult> {
+    if (this.trialEnded) {
+      this.masterSocket?.sendPlainMessage({ text: "[master] The trial has ended." });
+      return { outcome: "unavailable", reply: false };
+    }
+
+    if (command.type === "step") {
+      const statement = await this.stepTestimony(command.delta);
+      if (!statement) {
+        this.masterSocket?.sendPlainMessage({ text: "[master] There is no testimony to go through right now." });
+      }
+      return { outcome: statement ? "stepped" : "unavailable", reply: false, statement };
+    }
+
+    const witness = this.characters.get(this.phase.getWitnessId() ?? -1);
+    if (!witness || isInvestigation(this.segment)) {
+      this.masterSocket?.sendPlainMessage({ text: "[master] There is no witness on the stand." });
+      return { outcome: "unavailable", reply: false };
+    }
+
+    const statement = this.getCurrentStatement();
+    const quoted = statement ? `the statement "${statement.text}"` : `${witness.name}'s testimony`;
+
+    if (command.type === "press") {
+      this.recordPress(witness.id);
+      this.defenseAction = `The defense pressed ${quoted}. ${witness.name} must elaborate on it with more detail, and may slip up.`;
+      return { outcome: "pressed", reply: true, statement };
+    }
+
+    const evidence = command.type === "present"
+      ? matchEvidence(command.evidence, this.evidences)
+      : findMentionedEvidence(command.text, this.evidences);
+
+    if (!evidence) {
+      if (command.type === "present") {
+        this.masterSocket?.sendPlainMessage({ text: `[master] There is no "${command.evidence}" in the Court Record.` });
+        return { outcome: "unknown-evidence", reply: false };
+      }
+
+      const contested = statement?.contradictionId && !this.exposedContradictions.has(statement.contradictionId);
+      if (statement && !contested) {
+        this.defenseAction = `The defense objected to ${quoted}, but it holds up. The Judge overrules the objection.`;
+        const reply = await this.penalize("Objection overruled!");
+        return { outcome: "baseless", reply, statement };
+      }
+      this.defenseAction = `The defense objected to ${quoted} without presenting evidence. The Judge demands evidence to back the objection up.`;
+      return { outcome: "needs-evidence", reply: true, statement };
+    }
+
+    const target = this.contradictions.find((c) =>
+      c.witnessId === witness.id &&
+      c.evidenceId === evidence.id &&
+      !this.exposedContradictions.has(c.id) &&
+      (!statement || c.id === statement.contradictionId),
+    );
+    if (!target) {
+      this.defenseAction = `The defense presented the ${evidence.name} against ${quoted}, but it proves nothing there. The Judge and the prosecution dismiss it.`;
+      const reply = await this.penalize(`The ${evidence.name} proves nothing here!`);
+      return { outcome: "wrong-evidence", reply, statement, evidence };
+    }
+
+    const contradiction = this.markExposed(target);
+    this.defenseAction = `The defense presented the ${evidence.name} and exposed a contradiction in ${witness.name}'s claim "${contradiction.claim}": ${contradiction.explanation} React to being caught out.`;
+    return { outcome: "exposed", reply: true, statement, evidence, contradiction };
+  }
+
   getKeyPoints(): string[] {
     return this.storyManager.getKeyPoints();
   }
 
+  // Moves the story to the next key point; returns it, or undefined past the last one.
+  advanceKeyPoint(): string | undefined {
+    const keyPoint = this.storyManager.advanceKeyPoint();
+    this.triggerReveals({ type: "keyPoint", keyPoint: this.storyManager.getKeyPointIndex() });
+    return keyPoint;
+  }
+
   addEvidence(evidence: EvidenceItem): void {
     this.evidences.push(evidence);
   }
 
+  // Every item of the case with where it is right now.
+  getEvidenceStatus(): Array<{ item: EvidenceItem; visibility: EvidenceVisibility }> {
+    return [
+      ...this.evidences.map((item) => ({ item, visibility: "visible" as const })),
+      ...this.pendingEvidence.map((item) => ({ item, visibility: "hidden" as const })),
+      ...this.retractedEvidence.map((item) => ({ item, visibility: "retracted" as const })),
+    ];
+  }
+
+  /**
+   * Puts a hidden or retracted item in the court record and has a character
+   * submit it in court (`announce`). Returns false when the item is unknown
+   * or already visible.
+   */
+  async revealEvidence(evidenceId: string, announce: boolean = true): Promise<boolean> {
+    const item = [...this.pendingEvidence, ...this.retractedEvidence].find((e) => e.id === evidenceId);
+    if (!item) {
+      return false;
+    }
+
+    this.retractedEvidence = this.retractedEvidence.filter((e) => e !== item);
+    this.revealQueue = this.revealQueue.filter((e) => e !== item);
+    this.discoverEvidence(item);
+    if (announce) {
+      await this.announceEvidence(item);
+    }
+    return true;
+  }
+
+  // Takes an item out of the court record and deletes it from the courtroom.
+  retractEvidence(evidenceId: string): boolean {
+    const item = this.evidences.find((e) => e.id === evidenceId);
+    if (!item) {
+      return false;
+    }
+
+    this.evidences = this.evidences.filter((e) => e !== item);
+    this.retractedEvidence.push(item);
+
+    const courtroomId = this.postedEvidenceIds.get(item.id);
+    if (courtroomId) {
+      this.masterSocket?.deleteEvidence(courtroomId);
+      this.postedEvidenceIds.delete(item.id);
+    }
+    this.masterSocket?.sendPlainMessage({ text: `[master] ${item.name} was removed from the Court Record.` });
+    console.log(`[case] evidence retracted: ${item.name}`);
+    return true;
+  }
+
   addCharacter(profile: CharacterProfile): CharacterManager {
     const hydrated = this.ensureCharacterId(profile);
     const manager = new CharacterManager(hydrated);
     this.characters.set(hydrated.id, manager);
+    this.caseBible = null;
     return manager;
   }
 
@@ -112,8 +420,46 @@ export class CaseManager {
     return this.characters.get(id);
   }
 
+  /**
+   * The parts of the case that stay fixed for the whole trial and every
+   * speaker may know: story and character profiles. Sent as cached context so
+   * per-turn prompts only carry what changed. The evidence is not in it; only
+   * prosecutors see it, through their system instruction.
+   */
+  getCaseBible(): string {
+    if (this.caseBible !== null) {
+      return this.caseBible;
+    }
+
+    const characters = Array.from(this.characters.values()).map((c) =>
+      `- ${c.name} (${c.role ?? "unknown role"})${c.description ? `: ${c.description}` : ""}`,
+    );
+
+    this.caseBible = [
+      "CASE FILE",
+      `Story: ${this.storyPrompt}`,
+      characters.length ? `Cast:\n${characters.join("\n")}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    return this.caseBible;
+  }
+
   setMasterSocket(socket: CourtroomWebSocketClient | null): void {
     this.masterSocket = socket;
+    // Remember the courtroom ids of our own evidence so it can be retracted later.
+    socket?.onEvidenceAdded((evidence) => {
+      const item = this.evidences.find((e) => e.name === evidence.name && !this.postedEvidenceIds.has(e.id));
+      if (evidence.username === "MasterSocket" && item) {
+        this.postedEvidenceIds.set(item.id, evidence.id);
+      }
+    });
+  }
+
+  // Posts the current court record; evidence held back for investigations is posted when found.
+  postCourtRecord(): void {
+    this.evidences.forEach((item, index) => this.postEvidence(item, index + 1));
   }
 
   bindCharacterSocket(
@@ -127,13 +473,40 @@ export class CaseManager {
   }
 
   async nextBeat(options: NextBeatOptions): Promise<NextBeatResult> {
+    if (this.trialEnded) {
+      return { speakerId: null, text: "" };
+    }
+
+    if (this.usage?.getBudgetStatus() === "exhausted") {
+      return this.wrapUpTrial(options);
+    }
+
+    await this.announceQueuedReveals();
+
+    const resolution = this.checkResolution();
+    if (resolution) {
+      return this.resolveTrial(resolution);
+    }
+
+    const staged = await this.stagePhase();
+    if (staged) {
+      return staged;
+    }
+
     // Gather character memories
     const characterMemories = new Map<number, Array<{ entry: string }>>();
     this.characters.forEach((char) => {
       characterMemories.set(char.id, char.getMemory(5));
     });
 
-    const speaker = await this.storyManager.chooseSpeaker(options.candidates, {
+    // The Judge stays in court; anyone else can be questioned during an investigation.
+    // In court, the trial phase decides who may speak.
+    const roleOf = (id: number) => this.characters.get(id)?.role?.toLowerCase();
+    const candidates = isInvestigation(this.segment)
+      ? options.candidates.filter((c) => roleOf(c.id) !== "judge")
+      : options.candidates.filter((c) => this.phase.allows(roleOf(c.id), c.id));
+
+    const speaker = await this.storyManager.chooseSpeaker(candidates, {
       storyPrompt: this.storyPrompt,
       lastMsg: options.lastMsg,
       lastSpeakerId: options.lastSpeakerId,
@@ -154,12 +527,42 @@ export class CaseManager {
       return { speakerId: speaker.id, text: "" };
     }
 
-    const prompt = options.prompt ?? this.buildPromptFromState(options, character);
-    const draft = await character.generateSpeech(prompt, this.genai);
+    // Each character questioned during an investigation turns up the next piece of evidence.
+    const discovery = isInvestigation(this.segment)
+      ? this.pendingEvidence.find((e) => foundOnDay(e) === this.segment.day) ?? null
+      : null;
+    const prompt = [
+      options.prompt ?? this.buildPromptFromState(options, character),
+      this.defenseAction ?? "",
+      discovery ? `In this line, hand the defense this new evidence or tell them where to find it: ${discovery.name}${discovery.description ? ` (${discovery.description})` : ""}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+    this.defenseAction = null;
+    let draft: SpeechDraft;
+    try {
+      draft = await character.generateSpeech(prompt, this.genai, {
+        model: this.speechModel,
+        systemInstruction: this.buildSystemInstruction(options, character),
+        history: this.buildHistory(character),
+        cachedContext: this.getCaseBible(),
+        difficulty: this.difficulty,
+      });
+    } catch (error) {
+      // Retries are exhausted or the circuit is open; the Judge covers for us.
+      console.warn(`[case] speech generation for ${character.name} failed:`, (error as Error).message);
+      return { speakerId: speaker.id, text: "" };
+    }
     const refined: SpeechDraft = this.storyManager.refineSpeech(draft);
+    if (!refined.text) {
+      return { speakerId: speaker.id, text: "" };
+    }
 
     character.recordSpeech(refined.text);
     await character.sendMessage(refined);
+    if (discovery) {
+      this.discoverEvidence(discovery);
+    }
 
     this.storyManager.logSpeech(
       speaker.id,
@@ -167,6 +570,16 @@ export class CaseManager {
       refined.text,
       character.getState(),
     );
+    if (!isInvestigation(this.segment)) {
+      this.phase.recordBeat();
+      this.updatePhase();
+    }
+
+    const confessed = this.checkResolution({ speakerId: speaker.id, confessed: refined.confessed ?? false });
+    if (confessed) {
+      await this.resolveTrial(confessed);
+      return { speakerId: speaker.id, text: refined.text };
+    }
     
     // Always complete the AI turn after a message is sent
     this.storyManager.completeAiTurn();
@@ -191,27 +604,622 @@ export class CaseManager {
     };
   }
 
+  isTrialEnded(): boolean {
+    return this.trialEnded;
+  }
+
+  // Called once whenever a trial ends, however it ends.
+  onTrialFinished(listener: (result: TrialResult) => void): void {
+    this.trialListeners.push(listener);
+  }
+
+  /**
+   * Records this trial as the next episode of `campaign`, with what each
+   * character remembers from it. Once per trial: returns null when the trial
+   * was already recorded, by hand or when it finished.
+   */
+  recordEpisode(campaign: Campaign, result: Omit<EpisodeResult, "memories">): EpisodeRecord | null {
+    if (this.episode) {
+      return null;
+    }
+
+    this.episode = campaign.recordEpisode(this.getCaseState(), { ...result, memories: this.getEpisodeMemories() });
+    return this.episode;
+  }
+
+  // What each character remembers from this trial, without memories carried in from a campaign.
+  private getEpisodeMemories(): Map<number, string[]> {
+    // Memories carried in from earlier episodes have timestamp 0.
+    return new Map(Array.from(this.characters.values()).map((c) => [
+      c.id,
+      c.getMemory(20).filter((m) => m.timestamp > 0).map((m) => m.entry),
+    ]));
+  }
+
+  getSegment(): TrialSegment {
+    return { ...this.segment };
+  }
+
+  getPhase(): TrialPhase {
+    return this.phase.getPhase();
+  }
+
+  // Forces the trial into `phase`, optionally with another witness on the stand.
+  setPhase(phase: TrialPhase, witnessId?: number): void {
+    this.phase.enter(phase, this.buildPhaseContext(), witnessId);
+    this.stagedPhase = null;
+    this.announcePhase();
+  }
+
+  // Statements of the witness on the stand; empty until they have testified.
+  getTestimony(): TestimonyStatement[] {
+    return this.testimonies.get(this.phase.getWitnessId() ?? -1) ?? [];
+  }
+
+  // The statement on screen, or null outside a cross-examination.
+  getCurrentStatement(): TestimonyStatement | null {
+    return this.phase.getPhase() === "cross-examination" ? this.getTestimony()[this.currentStatement] ?? null : null;
+  }
+
+  /**
+   * Moves the cross-examination `delta` statements on (wrapping around, as in
+   * the games) and shows that statement again. Returns it, or null outside a
+   * cross-examination.
+   */
+  async stepTestimony(delta: number): Promise<TestimonyStatement | null> {
+    const statements = this.getTestimony();
+    const witness = this.characters.get(this.phase.getWitnessId() ?? -1);
+    if (!witness || !statements.length || this.phase.getPhase() !== "cross-examination") {
+      return null;
+    }
+
+    this.currentStatement = (((this.currentStatement + delta) % statements.length) + statements.length) % statements.length;
+    await this.showStatement(witness);
+    return statements[this.currentStatement] ?? null;
+  }
+
+  // True once a court day has exposed its share of the contradictions (never
+  // on the last day), or an investigation has turned up all of its evidence.
+  isSegmentComplete(): boolean {
+    if (this.trialEnded) {
+      return false;
+    }
+
+    if (isInvestigation(this.segment)) {
+      return !this.pendingEvidence.some((e) => (foundOnDay(e) ?? Infinity) <= this.segment.day);
+    }
+
+    return this.segment.day < this.days &&
+      this.exposedContradictions.size >= courtDayTarget(this.contradictions.length, this.segment.day, this.days);
+  }
+
+  /**
+   * Moves the trial on: a court day ends on a cliffhanger and the next day's
+   * investigation starts, or an investigation ends and the Judge opens court
+   * with a recap. Returns the new segment, or null after the last court day.
+   */
+  async advanceSegment(): Promise<TrialSegment | null> {
+    const finished = this.segment;
+    const next = nextSegment(finished, this.days);
+    const judge = this.findJudge();
+    if (!next || this.trialEnded) {
+      return null;
+    }
+
+    if (isInvestigation(finished)) {
+      // Whatever the defense didn't dig up still reaches the court record.
+      this.pendingEvidence
+        .filter((e) => (foundOnDay(e) ?? Infinity) <= finished.day)
+        .forEach((e) => this.discoverEvidence(e));
+      this.segment = next;
+      this.phase.enter("opening", this.buildPhaseContext());
+      this.stagedPhase = null;
+
+      const found = this.evidences.filter((e) => foundOnDay(e) === finished.day).map((e) => e.name);
+      if (judge) {
+        await this.speakScripted(
+          judge,
+          [
+            `Court day ${next.day} of ${this.days} begins. Call the court to order and recap the trial so far in <=50 words.`,
+            found.length ? `The defense has new evidence since the last session: ${found.join(", ")}.` : "",
+          ].filter(Boolean).join("\n"),
+          `Court is now in session for day ${next.day} of this trial. Let us pick up where we left off.`,
+        );
+      }
+    } else {
+      if (judge) {
+        await this.speakScripted(
+          judge,
+          "End today's session on a cliffhanger: point out the shocking question this day has raised, then adjourn the court until tomorrow. <=40 words.",
+          "This has raised more questions than answers. Court is adjourned until tomorrow!",
+        );
+      }
+      this.segment = next;
+      this.phase.enter("recess", this.buildPhaseContext());
+      this.stagedPhase = null;
+      this.masterSocket?.sendPlainMessage({
+        text: `[Investigation] Day ${next.day}: question the people involved to find new evidence before court resumes.`,
+      });
+    }
+
+    this.storyManager.forcePlayerTurn();
+    console.log(`[case] ${describeSegment(next, this.days)}`);
+    return next;
+  }
+
+  // Budget ran out: the Judge closes the trial with one last verdict line.
+  private async wrapUpTrial(options: NextBeatOptions): Promise<NextBeatResult> {
+    this.trialEnded = true;
+    this.updatePhase();
+    this.storyManager.forcePlayerTurn();
+
+    const judge = this.findJudge();
+    if (!judge) {
+      this.masterSocket?.sendPlainMessage({ text: "[master] The trial has ended." });
+      this.emitTrialFinished("budget", "unresolved", "");
+      return { speakerId: null, text: "" };
+    }
+
+    const prompt = [
+      this.buildPromptFromState({ ...options, lastSpeakerState: null }, judge),
+      "The court must conclude NOW. Hand down the final verdict (guilty or not guilty) based on the transcript, and formally close the trial in <=40 words.",
+    ].join("\n");
+
+    const text = await this.speakScripted(
+      judge,
+      prompt,
+      "The court has heard enough. A verdict will be entered on the record. This court is adjourned!",
+      options,
+    );
+    this.emitTrialFinished("budget", "unresolved", text);
+
+    return { speakerId: judge.id, text };
+  }
+
+  /**
+   * The scripted ending of a solved case: the culprit breaks down (unless they
+   * just confessed), the Judge hands down the verdict with its popup and sums
+   * up the case. Ends the trial and notifies the onTrialFinished listeners.
+   */
+  private async resolveTrial(reason: ResolutionReason): Promise<NextBeatResult> {
+    this.trialEnded = true;
+    this.updatePhase();
+    this.storyManager.forcePlayerTurn();
+
+    const culprit = this.characters.get(this.truth?.culpritId ?? -1);
+    const defendant = Array.from(this.characters.values()).find((c) => c.role?.toLowerCase() === "defendant");
+    const verdict: EpisodeVerdict = culprit && culprit === defendant ? "guilty" : "not guilty";
+
+    // Nobody was caught out when the testimony simply ran out; the Judge weighs what was heard.
+    if (culprit && reason !== "confession" && reason !== "heard") {
+      await this.speakScripted(
+        culprit,
+        "The defense has torn your testimony apart and there is no way out. Break down in character and admit what you did and why, in <=40 words.",
+        "No... No, no, NO! ...Fine. It was me. I did it!",
+      );
+    }
+
+    const judge = this.findJudge();
+    let summary = "";
+    if (judge) {
+      await this.speakScripted(
+        judge,
+        `${reason === "heard" ? "Every witness has been heard." : "The truth has come out."} Hand down the verdict: the defendant${defendant ? `, ${defendant.name},` : ""} is ${verdict.toUpperCase()}. <=25 words.`,
+        `This court finds the defendant${defendant ? `, ${defendant.name},` : ""}... ${verdict === "guilty" ? "Guilty" : "Not guilty"}!`,
+        undefined,
+        { popup: verdict === "guilty" ? MessagePopup.Guilty : MessagePopup.NotGuilty },
+      );
+      summary = await this.speakScripted(
+        judge,
+        [
+          "Close the trial: sum up what really happened and who was responsible, then adjourn the court. <=50 words.",
+          this.truth && culprit ? `What really happened: ${culprit.name} did it. Motive: ${this.truth.motive}. Method: ${this.truth.method}.` : "",
+        ].filter(Boolean).join("\n"),
+        "Thanks to the defense, the truth of this case has come to light. This court is adjourned!",
+      );
+    }
+
+    this.masterSocket?.sendPlainMessage({
+      text: `[Verdict] ${verdict === "guilty" ? "Guilty" : "Not guilty"}. ${this.exposedContradictions.size}/${this.contradictions.length} contradictions exposed.`,
+    });
+    this.emitTrialFinished(reason, verdict, summary);
+    return { speakerId: judge?.id ?? null, text: summary };
+  }
+
+  // Solved-case check for the state of the trial, plus `line` when a character just spoke.
+  private checkResolution(line?: { speakerId: number; confessed: boolean }): ResolutionReason | null {
+    if (this.trialEnded || isInvestigation(this.segment)) {
+      return null;
+    }
+
+    const culpritId = this.truth?.culpritId ?? null;
+    const culpritClaims = this.contradictions.filter((c) => c.witnessId === culpritId);
+    return detectResolution({
+      culpritId,
+      culpritClaims: {
+        planned: culpritClaims.length,
+        exposed: culpritClaims.filter((c) => this.exposedContradictions.has(c.id)).length,
+      },
+      exposed: this.exposedContradictions.size,
+      total: this.contradictions.length,
+      finalDay: this.segment.day === this.days,
+      witnessesHeard: this.phase.getPhase() === "verdict",
+      line,
+    });
+  }
+
+  // Once per trial: later calls are ignored so a verdict is never recorded twice.
+  private emitTrialFinished(reason: ResolutionReason, verdict: EpisodeVerdict, summary: string): void {
+    if (this.trialResult) {
+      return;
+    }
+
+    const result: TrialResult = {
+      verdict,
+      reason,
+      culpritId: this.truth?.culpritId ?? null,
+      exposed: this.exposedContradictions.size,
+      total: this.contradictions.length,
+      summary,
+    };
+    this.trialResult = result;
+    console.log(`[case] trial finished: ${verdict} (${reason})`);
+    this.trialListeners.forEach((listener) => listener(result));
+  }
+
+  // One line for a fixed story beat; `fallback` is posted when generation fails.
+  private async speakScripted(
+    character: CharacterManager,
+    prompt: string,
+    fallback: string,
+    options: NextBeatOptions = { candidates: [], lastMsg: "", lastSpeakerId: null, lastSpeakerState: null },
+    delivery: Pick<CreateMessageDto, "popup" | "isTestimony"> = {},
+  ): Promise<string> {
+    let draft: SpeechDraft = { text: "" };
+    try {
+      draft = await character.generateSpeech(prompt, this.genai, {
+        model: this.speechModel,
+        systemInstruction: this.buildSystemInstruction(options, character),
+        history: this.buildHistory(character),
+        cachedContext: this.getCaseBible(),
+        difficulty: this.difficulty,
+        // A popup line must go out once, whole, with its popup.
+        noEarlyDelivery: delivery.popup !== undefined,
+      });
+    } catch (error) {
+      console.warn(`[case] scripted line for ${character.name} failed, using fallback:`, (error as Error).message);
+    }
+
+    // Keep deliveredText so sendMessage skips the sentence already shown while streaming.
+    const line: SpeechDraft = draft.text ? draft : { text: fallback };
+    await character.sendMessage(line, delivery);
+    this.storyManager.logSpeech(character.id, character.name, line.text, character.getState());
+    return line.text;
+  }
+
+  private findJudge(): CharacterManager | undefined {
+    return Array.from(this.characters.values()).find(
+      (character) => character.role?.toLowerCase() === "judge",
+    );
+  }
+
+  // Costs the defense one mistake. Returns false when that was the last one and the trial is over.
+  private async penalize(reason: string): Promise<boolean> {
+    this.credibility = Math.max(0, this.credibility - 1);
+    this.postCredibility(reason);
+    if (this.credibility > 0) {
+      return true;
+    }
+
+    this.defenseAction = null;
+    await this.declareDefenseDefeat();
+    return false;
+  }
+
+  // The credibility meter, posted as a plain courtroom message.
+  postCredibility(reason?: string): void {
+    const meter = "●".repeat(this.credibility) + "○".repeat(this.maxCredibility - this.credibility);
+    this.masterSocket?.sendPlainMessage({
+      text: `[Penalty] ${reason ? `${reason} ` : ""}Credibility: ${meter} (${this.credibility}/${this.maxCredibility})`,
+    });
+  }
+
+  // Out of credibility: the Judge finds the defendant guilty and the trial ends.
+  private async declareDefenseDefeat(): Promise<void> {
+    if (this.trialEnded) {
+      return;
+    }
+
+    this.trialEnded = true;
+    this.updatePhase();
+    this.storyManager.forcePlayerTurn();
+
+    const judge = this.findJudge();
+    let summary = "";
+    if (judge) {
+      summary = await this.speakScripted(
+        judge,
+        "The defense has made too many baseless claims and lost all credibility. Declare the defendant GUILTY and close the trial in <=30 words.",
+        "The defense has failed to make its case. This court finds the defendant... Guilty! Court is adjourned.",
+        undefined,
+        { popup: MessagePopup.Guilty },
+      );
+    } else {
+      this.masterSocket?.sendPlainMessage({ text: "[master] The defendant was found guilty. The trial has ended." });
+    }
+    this.emitTrialFinished("credibility", "guilty", summary);
+  }
+
+  // The only place a contradiction is exposed; resolvePlayerCommand decides which one.
+  private markExposed(contradiction: Contradiction): Contradiction {
+    this.exposedContradictions.add(contradiction.id);
+    console.log(`[case] contradiction ${contradiction.id} exposed: "${contradiction.claim}"`);
+    this.triggerReveals({ type: "contradiction", contradictionId: contradiction.id });
+    this.updatePhase();
+    return contradiction;
+  }
+
+  // Queues hidden items whose reveal condition `trigger` meets; see announceQueuedReveals.
+  private triggerReveals(trigger: RevealTrigger): void {
+    const ready = this.pendingEvidence.filter((e) => matchesReveal(e.reveal, trigger) && !this.revealQueue.includes(e));
+    this.revealQueue.push(...ready);
+  }
+
+  private async announceQueuedReveals(): Promise<void> {
+    for (let item = this.revealQueue.shift(); item; item = this.revealQueue.shift()) {
+      await this.revealEvidence(item.id);
+    }
+  }
+
+  // The character named by the reveal condition, or the prosecutor, submits the item in court.
+  private async announceEvidence(item: EvidenceItem): Promise<void> {
+    const by = item.reveal && item.reveal.when !== "investigation" ? item.reveal.by : undefined;
+    const announcer = (by !== undefined ? this.characters.get(by) : undefined) ??
+      Array.from(this.characters.values()).find((c) => c.role?.toLowerCase() === "prosecutor");
+    if (!announcer) {
+      return;
+    }
+
+    await this.speakScripted(
+      announcer,
+      `Stay in character and submit this new evidence to the court as a surprise, in <=30 words: ${item.name}${item.description ? ` (${item.description})` : ""}`,
+      `The prosecution submits new evidence to the court: the ${item.name}!`,
+    );
+  }
+
+  // Moves a held-back item into the court record and posts it to the courtroom.
+  private discoverEvidence(item: EvidenceItem): void {
+    this.pendingEvidence = this.pendingEvidence.filter((e) => e !== item);
+    this.addEvidence(item);
+    this.postEvidence(item, this.evidences.length);
+    this.masterSocket?.sendPlainMessage({ text: `[master] New evidence: ${item.name} was added to the Court Record.` });
+    console.log(`[case] evidence found: ${item.name}`);
+  }
+
+  private postEvidence(item: EvidenceItem, evidenceId: number): void {
+    this.masterSocket?.addEvidence({
+      evidenceId,
+      name: item.name,
+      description: item.description ?? "",
+      iconUrl: item.url || "https://via.placeholder.com/128?text=Evidence",
+      url: item.url ?? "",
+      type: (item.type as "image" | "video") ?? "image",
+    });
+  }
+
+  isInRecess(): boolean {
+    return this.inRecess;
+  }
+
+  private async handleCircuitState(state: CircuitState): Promise<void> {
+    if (state === "open" && !this.inRecess) {
+      this.inRecess = true;
+      this.updatePhase();
+      await this.sendJudgeLine("The court will take a short recess. We will resume shortly!");
+    } else if (state === "closed" && this.inRecess) {
+      this.inRecess = false;
+      this.updatePhase();
+      await this.sendJudgeLine("Court is back in session. Let us continue.");
+    }
+  }
+
+  private buildPhaseContext(): PhaseContext {
+    const witnessIds = Array.from(this.characters.values())
+      .filter((c) => !c.isHuman && isTestifying(c))
+      .map((c) => c.id);
+
+    return {
+      witnessIds,
+      pendingContradictions: (witnessId) =>
+        this.contradictions.filter((c) => c.witnessId === witnessId && !this.exposedContradictions.has(c.id)).length,
+      testimonyComplete: (witnessId) => this.stagedPhase === "testimony" && this.phase.getWitnessId() === witnessId,
+      inRecess: this.inRecess,
+      trialEnded: this.trialEnded,
+    };
+  }
+
+  /**
+   * Runs the scripted beat a phase opens with: the witness delivers their whole
+   * testimony, then the cross-examination replays it from the first statement
+   * and hands the turn to the defense. Null when the phase has none or it ran.
+   */
+  private async stagePhase(): Promise<NextBeatResult | null> {
+    const witness = this.characters.get(this.phase.getWitnessId() ?? -1);
+    if (isInvestigation(this.segment) || !witness || this.stagedPhase === this.phase.getPhase()) {
+      return null;
+    }
+
+    if (this.phase.getPhase() === "testimony") {
+      await this.deliverTestimony(witness);
+      this.stagedPhase = "testimony";
+      this.updatePhase();
+    }
+
+    if (this.phase.getPhase() !== "cross-examination" || this.stagedPhase === "cross-examination") {
+      return null;
+    }
+
+    this.stagedPhase = "cross-examination";
+    const statement = await this.showStatement(witness, MessagePopup.CrossExamination);
+    this.storyManager.forcePlayerTurn();
+    return statement ? { speakerId: witness.id, text: statement.text } : null;
+  }
+
+  private async deliverTestimony(witness: CharacterManager): Promise<void> {
+    let statements = this.testimonies.get(witness.id);
+    if (!statements) {
+      statements = await generateTestimony(
+        this.genai,
+        { id: witness.id, name: witness.name, role: witness.role, description: witness.description },
+        this.storyPrompt,
+        this.truth,
+        this.contradictions.filter((c) => c.witnessId === witness.id),
+        { model: this.speechModel },
+      );
+      this.testimonies.set(witness.id, statements);
+    }
+
+    this.currentStatement = 0;
+    for (const [index, statement] of statements.entries()) {
+      if (index > 0) {
+        await wait(STATEMENT_DELAY_MS + statement.text.length * STATEMENT_DELAY_PER_CHAR_MS);
+      }
+      await witness.sendMessage(
+        { text: statement.text },
+        { isTestimony: true, popup: index === 0 ? MessagePopup.Testimony : undefined },
+      );
+      this.storyManager.logSpeech(witness.id, witness.name, statement.text, witness.getState());
+    }
+    console.log(`[case] ${witness.name} testified (${statements.length} statements)`);
+  }
+
+  // Puts the current statement back on screen, as testimony.
+  private async showStatement(witness: CharacterManager, popup?: MessagePopup): Promise<TestimonyStatement | null> {
+    const statement = this.getTestimony()[this.currentStatement];
+    if (!statement) {
+      return null;
+    }
+
+    await witness.sendMessage({ text: statement.text }, { isTestimony: true, popup });
+    this.storyManager.logSpeech(witness.id, witness.name, statement.text, witness.getState());
+    return statement;
+  }
+
+  // Re-checks the phase exit conditions; only court days have phases.
+  private updatePhase(): void {
+    if (isInvestigation(this.segment)) {
+      return;
+    }
+
+    if (this.phase.update(this.buildPhaseContext())) {
+      this.stagedPhase = null;
+      this.announcePhase();
+    }
+  }
+
+  private announcePhase(): void {
+    const witness = this.characters.get(this.phase.getWitnessId() ?? -1)?.name;
+    const titles: Record<TrialPhase, string> = {
+      opening: "Opening statements",
+      testimony: `Witness testimony: ${witness ?? "witness"}`,
+      "cross-examination": `Cross-examination: ${witness ?? "witness"}`,
+      rebuttal: "Rebuttal",
+      recess: "Recess",
+      verdict: "Verdict",
+    };
+    this.masterSocket?.sendPlainMessage({ text: `[Phase] ${titles[this.phase.getPhase()]}` });
+  }
+
+  // Scripted Judge line that needs no LLM call, posted through the master socket.
+  private async sendJudgeLine(text: string): Promise<void> {
+    const judge = this.findJudge();
+
+    try {
+      if (judge) {
+        await judge.sendMessage({ text });
+      } else {
+        this.masterSocket?.sendPlainMessage({ text: `[Judge] ${text}` });
+      }
+    } catch (error) {
+      console.warn("[case] could not post judge line:", error);
+    }
+  }
+
   private createCharacterSet(profiles: CharacterProfile[]): void {
     this.characters.clear();
     this.usedCharacterIds.clear();
     profiles.forEach((profile) => this.addCharacter(profile));
   }
 
-  private buildPromptFromState(options: NextBeatOptions, speaker?: CharacterManager): string {
+  // Stable context for the whole trial; the transcript travels as chat history.
+  private buildSystemInstruction(options: NextBeatOptions, speaker?: CharacterManager): string {
     const keyPoints = this.getKeyPoints();
+    const evidences = options.evidences ?? this.evidences;
+
+    // Only show evidence to prosecutors
+    const isProsecutor = speaker?.role?.toLowerCase() === "prosecutor";
+    const evidenceTitles = isProsecutor && evidences.length
+      ? `Available evidence:\n${evidences.map((e) => `- ${e.name}${e.description ? `: ${e.description}` : ""}`).join("\n")}`
+      : "";
+
+    const truthSlice = this.truth && speaker ? describeTruthFor(this.truth, speaker) : "";
+    const testimony = speaker ? this.buildTestimonyGuidance(speaker) : "";
+
+    const segment = isInvestigation(this.segment)
+      ? `${describeSegment(this.segment, this.days)}. Court is not in session: the defense (Phoenix Wright) is questioning people in person, so speak casually and off the record.`
+      : this.days > 1 ? `${describeSegment(this.segment, this.days)}.` : "";
+
+    return [
+      "You are voicing a character in an Ace Attorney style trial. The case file above is background; earlier courtroom lines are given as the conversation and your own earlier lines are the model turns.",
+      segment,
+      keyPoints.length ? `Key points: ${keyPoints.join(" | ")}` : "",
+      evidenceTitles,
+      truthSlice,
+      testimony,
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  // Steers a witness toward their planned false claims, and makes them react
+  // once the defense has exposed one.
+  private buildTestimonyGuidance(speaker: CharacterManager): string {
+    const own = this.contradictions.filter((c) => c.witnessId === speaker.id);
+    const pending = own.filter((c) => !this.exposedContradictions.has(c.id));
+    const exposed = own.filter((c) => this.exposedContradictions.has(c.id));
+
+    return [
+      pending.length
+        ? `In your testimony, state these as fact and stand by them until the defense proves otherwise:\n${pending.map((c) => `- ${c.claim}`).join("\n")}`
+        : "",
+      exposed.length
+        ? `The defense has exposed these claims as false; react to being caught:\n${exposed.map((c) => `- ${c.claim} (${c.explanation})`).join("\n")}`
+        : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  private buildHistory(speaker: CharacterManager): ChatTurn[] {
+    return this.storyManager.buildConversationHistory(speaker.id, this.buildRoleLookup());
+  }
+
+  private buildRoleLookup(): Map<string, string> {
+    return new Map(
+      Array.from(this.characters.values()).map((char) => [
+        char.name,
+        char.role ?? "Character",
+      ]),
+    );
+  }
+
+  private buildPromptFromState(options: NextBeatOptions, speaker?: CharacterManager): string {
     const messageIndex = options.messageIndex;
     const messageLimit = options.messageLimit;
     const messageCountLine =
       messageIndex && messageLimit
         ? `AI message ${messageIndex} of ${messageLimit}`
         : "";
-    const evidences = options.evidences ?? this.evidences;
-    
-    // Only show evidence to prosecutors
-    const isProsecutor = speaker?.role?.toLowerCase() === "prosecutor";
-    const evidenceTitles = isProsecutor && evidences.length 
-      ? `Available evidence: ${evidences.map((e) => e.name).join(", ")}` 
-      : "";
 
     // Include memories from all characters for context
     const allMemories: string[] = [];
@@ -222,22 +1230,15 @@ export class CaseManager {
       }
     });
     const memoriesContext = allMemories.length ? `Character memories:\n${allMemories.join("\n")}` : "";
-
-    const roleLookup = new Map(
-      Array.from(this.characters.values()).map((char) => [
-        char.name,
-        char.role ?? "Character",
-      ]),
-    );
-    const transcript = this.storyManager.buildSpeechLogTranscript(roleLookup);
-    const transcriptBlock = transcript ? `Recent transcript:\n${transcript}` : "";
+    const phase = isInvestigation(this.segment)
+      ? ""
+      : this.phase.describe(this.characters.get(this.phase.getWitnessId() ?? -1)?.name);
+    const statement = this.getCurrentStatement();
 
     return [
-      `Story: ${this.storyPrompt}`,
-      keyPoints.length ? `Key points: ${keyPoints.join(" | ")}` : "",
-      evidenceTitles,
+      phase,
+      statement ? `Testimony statement on screen (${this.currentStatement + 1} of ${this.getTestimony().length}): "${statement.text}"` : "",
       memoriesContext,
-      transcriptBlock,
       options.lastSpeakerId ? `Last speaker: ${options.lastSpeakerName ?? "unknown"} (id ${options.lastSpeakerId})` : "Last speaker: player",
       options.lastSpeakerState ? `Last speaker pose: ${options.lastSpeakerState.poseId}, mood: ${options.lastSpeakerState.mood}` : "",
       `Last message: "${options.lastMsg}"`,
@@ -326,3 +1327,7 @@ export class CaseManager {
     return available.id;
   }
 }
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,71 @@
+// A case to play later: one from the library, or a freshly generated one.
+export type QueuedCase =
+  | { source: "library"; id: string }
+  | { source: "generate"; prompt?: string };
+
+type AdvanceHandler = (next: QueuedCase) => Promise<void>;
+
+/**
+ * "Play next" list for running several cases in one session. The server
+ * registers the handler that tears the current case down and starts the next
+ * one; `advance` is called when a trial ends or from the REPL.
+ */
+export class CaseQueue {
+  private items: QueuedCase[] = [];
+  private handler: AdvanceHandler | null = null;
+  private advancing = false;
+
+  enqueue(item: QueuedCase): number {
+    this.items.push(item);
+    return this.items.length;
+  }
+
+  // `position` is 1-based, as shown by `queue list`; undefined when there is no such position.
+  remove(position: number): QueuedCase | undefined {
+    if (!Number.isInteger(position) || position < 1 || position > this.items.length) {
+      return undefined;
+    }
+
+    return this.items.splice(position - 1, 1)[0];
+  }
+
+  clear(): void {
+    this.items = [];
+  }
+
+  list(): QueuedCase[] {
+    return [...this.items];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  onAdvance(handler: AdvanceHandler): void {
+    this.handler = handler;
+  }
+
+  // Starts the next queued case. Returns false when the queue is empty or a
+  // case is already being started.
+  async advance(): Promise<boolean> {
+    const next = this.items[0];
+    if (!next || !this.handler || this.advancing) {
+      return false;
+    }
+
+    this.advancing = true;
+    this.items.shift();
+    try {
+      await this.handler(next);
+      return true;
+    } finally {
+      this.advancing = false;
+    }
+  }
+}
+
+export function describeQueuedCase(item: QueuedCase): string {
+  return item.source === "library"
+    ? `library case ${item.id}`
+    : `new case${item.prompt ? ` ("${item.prompt}")` : ""}`;
+}
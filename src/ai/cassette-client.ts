@@ -0,0 +1,151 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { GenAIClient, GenerateOptions, JsonSchema, JsonStreamEvent } from "./genai-client";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  file: string;
+  client?: GenAIClient | null; // live client, required when recording
+  lenient?: boolean; // replay: answer unrecorded prompts with the next entry of the same schema
+}
+
+export interface CassetteEntry {
+  hash: string;
+  schemaHash: string;
+  prompt: string;
+  schema: JsonSchema;
+  response: unknown;
+}
+
+interface CassetteFile {
+  version: 1;
+  model: string;
+  seed?: number; // seeds the random picks embedded in prompts
+  entries: CassetteEntry[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(readonly hash: string, file: string) {
+    super(`No recorded response for prompt ${hash.slice(0, 12)} in cassette ${file}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * GenAIClient that records every (prompt, schema) -> response pair to a cassette
+ * file, or replays them offline. Replay looks entries up by prompt hash and
+ * throws CassetteMissError for a prompt that was not recorded. The cassette's
+ * `seed` is exposed on the client so random picks embedded in prompts (e.g.
+ * shuffled preset ids) come out the same on replay. With `lenient`, a miss
+ * falls back to the next unused entry recorded with the same schema, in
+ * recording order.
+ */
+export function createCassetteClient(options: CassetteOptions): GenAIClient {
+  return options.mode === "record"
+    ? createRecorder(options)
+    : createPlayer(options);
+}
+
+function createRecorder(options: CassetteOptions): GenAIClient {
+  const live = options.client;
+  if (!live) {
+    throw new Error("Recording a cassette requires a live GenAI client.");
+  }
+
+  const cassette: CassetteFile = { version: 1, model: live.model, seed: Math.floor(Math.random() * 2 ** 32), entries: [] };
+  fs.mkdirSync(path.dirname(path.resolve(options.file)), { recursive: true });
+
+  const record = (prompt: string, schema: JsonSchema, generateOptions: GenerateOptions | undefined, response: unknown) => {
+    cassette.entries.push({
+      hash: hashRequest(prompt, schema, generateOptions),
+      schemaHash: hashValue(schema),
+      prompt,
+      schema,
+      response,
+    });
+  };
+
+  // Written after every call so a crashed trial still leaves a usable cassette.
+  const save = () => fs.writeFileSync(options.file, JSON.stringify(cassette, null, 2), "utf8");
+
+  return {
+    model: live.model,
+    seed: cassette.seed,
+    onCircuitStateChange: live.onCircuitStateChange,
+    async generateJson<T>(prompt: string, schema: JsonSchema, generateOptions?: GenerateOptions): Promise<T> {
+      const response = await live.generateJson<T>(prompt, schema, generateOptions);
+      record(prompt, schema, generateOptions, response);
+      save();
+      return response;
+    },
+    async *streamJson<T>(prompt: string, schema: JsonSchema, generateOptions?: GenerateOptions): AsyncGenerator<JsonStreamEvent<T>> {
+      for await (const event of live.streamJson<T>(prompt, schema, generateOptions)) {
+        if (event.type === "done") {
+          record(prompt, schema, generateOptions, event.value);
+          save();
+        }
+        yield event;
+      }
+    },
+  };
+}
+
+function createPlayer(options: CassetteOptions): GenAIClient {
+  const cassette = loadCassette(options.file);
+  const used = new Set<CassetteEntry>();
+
+  const replay = <T>(prompt: string, schema: JsonSchema, generateOptions?: GenerateOptions): T => {
+    const hash = hashRequest(prompt, schema, generateOptions);
+    const exact = cassette.entries.find((entry) => entry.hash === hash && !used.has(entry));
+    const schemaHash = hashValue(schema);
+    const entry = exact ?? (options.lenient
+      ? cassette.entries.find((candidate) => candidate.schemaHash === schemaHash && !used.has(candidate))
+      : undefined);
+
+    if (!entry) {
+      throw new CassetteMissError(hash, options.file);
+    }
+
+    if (!exact) {
+      console.warn(`[cassette] WARNING: prompt ${hash.slice(0, 12)} was not recorded; replaying a response recorded for another prompt:\n${entry.prompt.slice(0, 200)}`);
+    }
+
+    used.add(entry);
+    return structuredClone(entry.response) as T;
+  };
+
+  return {
+    model: cassette.model,
+    seed: cassette.seed ?? 0,
+    async generateJson<T>(prompt: string, schema: JsonSchema, generateOptions?: GenerateOptions): Promise<T> {
+      return replay<T>(prompt, schema, generateOptions);
+    },
+    async *streamJson<T>(prompt: string, schema: JsonSchema, generateOptions?: GenerateOptions): AsyncGenerator<JsonStreamEvent<T>> {
+      yield { type: "done", value: replay<T>(prompt, schema, generateOptions) };
+    },
+  };
+}
+
+function loadCassette(file: string): CassetteFile {
+  const raw = fs.readFileSync(file, "utf8");
+  const parsed = JSON.parse(raw) as CassetteFile;
+  if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new Error(`Unsupported cassette format in ${file}`);
+  }
+
+  return parsed;
+}
+
+function hashRequest(prompt: string, schema: JsonSchema, options?: GenerateOptions): string {
+  const context = options?.systemInstruction || options?.history?.length || options?.cachedContext
+    ? { systemInstruction: options.systemInstruction, history: options.history, cachedContext: options.cachedContext }
+    : {};
+  return hashValue({ prompt, schema, ...context });
+}
+
+function hashValue(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
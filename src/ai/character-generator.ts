@@ -2,6 +2,8 @@ import type { GenAIClient, JsonSchema } from "./genai-client";
 import type { CharacterProfile } from "./character-manager";
 import Character from "../core/Character";
 import { Type } from "@google/genai";
+import { renderPrompt } from "./prompt-templates";
+import { CassetteMissError } from "./cassette-client";
 
 interface GeneratedCharacter {
   id: number;
@@ -10,9 +12,17 @@ interface GeneratedCharacter {
   role: string;
 }
 
+export interface CharacterGenerationOptions {
+  model?: string;
+  continuity?: string; // campaign summary, see Campaign.describeContinuity
+  theme?: string; // theme pack constraints, see compileThemeConstraints
+  presetIds?: number[]; // witness/defendant presets to offer instead of 20 random ones
+}
+
 export async function generateTrialCharacters(
   genai: GenAIClient | null,
-  storyline:string
+  storyline:string,
+  options: CharacterGenerationOptions = {},
 ): Promise<CharacterProfile[]> {
   const fallback = getFallbackCharacters();
 
@@ -21,9 +31,9 @@ export async function generateTrialCharacters(
   }
 
   try {
-    const prompt = buildPrompt(storyline);
+    const prompt = buildPrompt(storyline, options, genai.seed);
     const schema = buildSchema();
-    const parsed = await genai.generateJson<GeneratedCharacter[]>(prompt, schema);
+    const parsed = await genai.generateJson<GeneratedCharacter[]>(prompt, schema, { task: "characters", model: options.model });
     if (!Array.isArray(parsed) || parsed.length === 0) {
       return fallback;
     }
@@ -36,27 +46,37 @@ export async function generateTrialCharacters(
       role: c.role,
     }));
   } catch (error) {
+    if (error instanceof CassetteMissError) {
+      throw error; // a replay that diverged from its recording must not quietly play another case
+    }
     console.error("generateTrialCharacters failed, using fallback:", error);
     return fallback;
   }
 }
 
-function buildPrompt(storyline: string): string {
-  return [
-    "Generate characters for an Ace Attorney trial. Required roles:\n",
-    "1. Prosecutor: Name MUST be 'Miles Edgeworth' (characterId 2)\n",
-    "2. Judge: (characterId 10)\n",
-    "3-4. At least TWO witnesses with ' - Wt' suffix (use different witness characterIds from the list below)\n",
-    "5. Defendant with ' - Df' suffix (use a witness characterId)\n",
-    "Optional: One extra character (witness or defendant) who is secretly disguised/suspicious to add intrigue.\n",
-    "\nIMPORTANT: Witnesses and defendants should have interesting personalities and motivations that make them want to speak during the trial!",
-    "\nDO NOT generate character for player (Defense Attorney, Phoenix Wright).\n",
-    "Tone: Ace Attorney-inspired.\n",
-    "Possible witness/defendant characterIds: " + Character.getPossibleWitnessIds().slice(0, 20).join(", ") + "... (assign unique IDs, no repeats)\n\n",
-    
-    "Storyline: " +
-    storyline
-  ].join("\n");
+function buildPrompt(storyline: string, options: CharacterGenerationOptions, seed?: number): string {
+  const characterIds = options.presetIds?.length
+    ? options.presetIds.map((id) => `${id}:${Character.getCharacterData(id)?.name ?? "?"}`)
+    : Character.getPossibleWitnessIds(seed === undefined ? Math.random : seededRandom(seed)).slice(0, 20);
+
+  return renderPrompt("characters", {
+    storyPrompt: storyline,
+    continuity: options.continuity ?? "",
+    theme: options.theme ?? "",
+    characterIds: characterIds.join(", "),
+  });
+}
+
+// mulberry32: a small deterministic PRNG, enough to shuffle a preset list.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
 function buildSchema(): JsonSchema {
@@ -1,5 +1,9 @@
-import type { GenAIClient, JsonSchema } from "./genai-client";
+import type { ChatTurn, DeepPartial, GenAIClient, JsonSchema } from "./genai-client";
+import { StructuredOutputError } from "./schema-validator";
+import { renderPrompt } from "./prompt-templates";
+import { describeDemeanor, type Difficulty } from "./difficulty";
 import type CourtroomWebSocketClient from "../api/courtroom-websocket-client";
+import type { CreateMessageDto } from "../api/courtroom-websocket-types";
 import type { SpeechDraft } from "./story-manager";
 import Character from "../core/Character";
 import { Type } from "@google/genai";
@@ -9,36 +13,53 @@ export interface CharacterSpeech {
   timestamp: number;
 }
 
+// Property order matters when streaming: the scene (pose) arrives first, then
+// the text, so the first sentence can be shown while the rest is generated.
 function buildSpeechSchema(character: Character): JsonSchema {
   return {
     type: Type.OBJECT,
     required: ["text", "playerTurn", "scene"],
+    propertyOrdering: ["scene", "text", "playerTurn", "continueSpeech", "memory", "confessed"],
     properties: {
-      text: { type: Type.STRING, description: "The dialogue line that the character will speak" },
-      playerTurn: { type: Type.BOOLEAN, description: "Set to true if you need player (Defense) answer after this message." },
-      continueSpeech: { type: Type.BOOLEAN, description: "Set to true if you (this character) want to speak again immediately in the next message." },
       scene: {
         type: Type.OBJECT,
         required: ["poseId"],
+        propertyOrdering: ["poseId", "emotion", "action"],
         properties: {
-          action: { type: Type.STRING },
-          emotion: { type: Type.STRING, enum: ["neutral", "happy", "sad", "angry", "surprised", "nervous"] },
           poseId: {
             type: Type.STRING,
             enum: character.getPossiblePoses().map((pose) => ''+pose.id),
           },
+          emotion: { type: Type.STRING, enum: ["neutral", "happy", "sad", "angry", "surprised", "nervous"] },
+          action: { type: Type.STRING },
         },
       },
+      text: { type: Type.STRING, description: "The dialogue line that the character will speak" },
+      playerTurn: { type: Type.BOOLEAN, description: "Set to true if you need player (Defense) answer after this message." },
+      continueSpeech: { type: Type.BOOLEAN, description: "Set to true if you (this character) want to speak again immediately in the next message." },
       memory: {
         type: Type.ARRAY,
         description: "Short strings that the character wants to remember, for example an insult from the player or an important clue or contracdiction himself just said. Keep entries concise (<=12 words).",
         items: { type: Type.STRING },
         maxItems: "4"
       },
+      confessed: {
+        type: Type.BOOLEAN,
+        description: "Set to true only if in this line you admit that you committed the crime. Denials, questions and accusations are not confessions.",
+      },
     },
   };
 }
 
+export interface SpeechGenerationOptions {
+  model?: string;
+  systemInstruction?: string; // case context shared by every character
+  history?: ChatTurn[];
+  cachedContext?: string; // case bible, identical for every speech call
+  difficulty?: Difficulty; // how evasive witnesses and how aggressive the prosecutor are
+  noEarlyDelivery?: boolean; // wait for the whole line, e.g. when it is sent with a popup
+}
+
 export interface CharacterMemory {
   entry: string;
   timestamp: number;
@@ -53,6 +74,19 @@ export interface CharacterProfile {
   role?: string;
   characterId?: number;
   disguised?: boolean; // For the extra character that adds intrigue
+  memories?: string[]; // carried over from earlier episodes of a campaign
+}
+
+// The Judge and the prosecutor: they run the trial and are never suspects or witnesses.
+export function isCourtOfficial(profile: Pick<CharacterProfile, "role">): boolean {
+  const role = profile.role?.toLowerCase();
+  return role === "judge" || role === "prosecutor";
+}
+
+// Witnesses and the defendant: the characters who take the stand.
+export function isTestifying(profile: Pick<CharacterProfile, "role">): boolean {
+  const role = profile.role?.toLowerCase();
+  return role === "witness" || role === "defendant";
 }
 
 export class CharacterManager {
@@ -82,6 +116,7 @@ export class CharacterManager {
     }
     this.characterId = profile.characterId;
     this.disguised = profile.disguised;
+    this.memory = (profile.memories ?? []).map((entry) => ({ entry, timestamp: 0 }));
   }
 
   setPose(poseId?: number): void {
@@ -132,15 +167,66 @@ export class CharacterManager {
   async generateSpeech(
     prompt: string,
     genai: GenAIClient | null,
+    options: SpeechGenerationOptions = {},
   ): Promise<SpeechDraft> {
     if (!genai || !this.character) {
       return { text: "" };
     }
 
-    const fullPrompt = `${this.buildContext()}\n\nPrompt:\n${prompt}\n\nReturn JSON only (no markdown) with: text (Character speech), scene (object with optional action, emotion, poseId), memory (array of short strings to remember), playerTurn, continueSpeech (boolean - set true if YOU want to speak again immediately after this message, If witness is being cross-examined, set to true so it can explain in detail). If you pick a poseId, use one from the available list. Keep memory entries concise (<=12 words) and only add when needed.`;
+    const systemInstruction = [
+      options.systemInstruction ?? "",
+      `You are playing this character:\n${this.buildContext()}`,
+      options.difficulty ? describeDemeanor(this.role, options.difficulty) : "",
+    ].filter(Boolean).join("\n\n");
+    const fullPrompt = renderPrompt("speech", {
+      prompt,
+      name: this.name,
+      role: this.role ?? "",
+      memories: this.getMemory(5).map((item) => `- ${item.entry}`).join("\n"),
+    });
 
     const schema = buildSpeechSchema(this.character);
-    const response = await genai.generateJson<SpeechDraft>(fullPrompt, schema);
+    let response: SpeechDraft | undefined;
+    let deliveredText = "";
+    let delivery: Promise<void> | null = null;
+    try {
+      for await (const event of genai.streamJson<SpeechDraft>(fullPrompt, schema, {
+        task: "speech",
+        model: options.model,
+        systemInstruction,
+        history: options.history,
+        cachedContext: options.cachedContext,
+      })) {
+        if (event.type === "done") {
+          response = event.value;
+          break;
+        }
+
+        // Show the first sentence as soon as pose and sentence are known; the
+        // rest is sent by sendMessage once the whole line is generated.
+        const early = delivery || options.noEarlyDelivery ? null : this.extractEarlyLine(event.value);
+        if (early) {
+          deliveredText = early.text;
+          delivery = this.deliverEarlyLine(early.text, early.poseId, early.emotion);
+        }
+      }
+    } catch (error) {
+      await delivery;
+      if (deliveredText) {
+        console.warn(`[speech] ${this.name} stream failed after the first sentence:`, (error as Error).message);
+        return { text: deliveredText, deliveredText };
+      }
+      if (error instanceof StructuredOutputError) {
+        console.warn(`[speech] ${this.name} produced no usable line:`, error.violations);
+        return { text: "" };
+      }
+      throw error;
+    }
+    await delivery;
+
+    if (!response) {
+      return { text: deliveredText, deliveredText };
+    }
 
     response!.scene!.poseId = parseInt(response.scene?.poseId as unknown as string) || this.character.getCurrentPoseId() || this.pickDefaultPoseId();
     return {
@@ -149,9 +235,53 @@ export class CharacterManager {
       playerTurn: response.playerTurn,
       memory: response.memory,
       continueSpeech: response.continueSpeech ?? false,
+      confessed: response.confessed ?? false,
+      deliveredText,
     };
   }
 
+  private extractEarlyLine(
+    partial: DeepPartial<SpeechDraft>,
+  ): { text: string; poseId: number; emotion?: string } | null {
+    // `scene` is generated before `text`, so once text exists the scene is final.
+    if (typeof partial.text !== "string") {
+      return null;
+    }
+
+    const poseId = parseInt(String(partial.scene?.poseId));
+    const validPose = this.character?.getPossiblePoses().some((pose) => pose.id === poseId);
+    const textComplete =
+      partial.playerTurn !== undefined ||
+      partial.continueSpeech !== undefined ||
+      partial.memory !== undefined;
+    const sentence = textComplete
+      ? partial.text.trim()
+      : /^\s*(.+?[.!?…]+["'”’)\]]*)\s+\S/.exec(partial.text)?.[1]?.trim();
+
+    if (!sentence) {
+      return null;
+    }
+
+    return {
+      text: sentence,
+      poseId: validPose ? poseId : this.character?.getCurrentPoseId() ?? this.pickDefaultPoseId(),
+      emotion: partial.scene?.emotion,
+    };
+  }
+
+  private async deliverEarlyLine(text: string, poseId: number, emotion?: string): Promise<void> {
+    const character = this.ensureCharacter();
+    this.setPose(poseId);
+
+    const normalized = emotion ? this.normalizeMood(emotion) : null;
+    if (normalized) {
+      this.mood = normalized;
+      character.setMood(normalized);
+    }
+
+    await character.speech(text, poseId);
+  }
+
   bindSocket(socket: CourtroomWebSocketClient | null): void {
     this.socket = socket;
     if (!this.socket) {
@@ -174,7 +304,8 @@ export class CharacterManager {
     this.socket?.sendPlainMessage({ text });
   }
 
-  async sendMessage(draft: SpeechDraft): Promise<void> {
+  // `delivery` adds courtroom effects such as the testimony popups to the line.
+  async sendMessage(draft: SpeechDraft, delivery: Pick<CreateMessageDto, "popup" | "isTestimony"> = {}): Promise<void> {
     const character = this.ensureCharacter();
 
     if (draft.scene?.poseId !== undefined) {
@@ -193,7 +324,13 @@ export class CharacterManager {
 
     const poseId = character.getCurrentPoseId() ?? this.pickDefaultPoseId();
 
-    await character.speech(draft.text, poseId);
+    // Skip the part of the line that was already shown while streaming.
+    const remaining = draft.deliveredText && draft.text.startsWith(draft.deliveredText)
+      ? draft.text.slice(draft.deliveredText.length).trim()
+      : draft.text;
+    if (remaining) {
+      await character.speech(remaining, poseId, delivery);
+    }
   }
 
   addMemory(entry: string, timestamp: number = Date.now()): void {
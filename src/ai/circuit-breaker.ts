@@ -0,0 +1,88 @@
+import { CircuitOpenError } from "./llm-errors";
+import { isRetryable } from "./retry";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // consecutive transport failures before opening
+  resetTimeoutMs?: number; // how long to stay open before letting a probe through
+}
+
+/**
+ * Stops hammering an LLM backend that keeps failing. After `failureThreshold`
+ * consecutive transport failures the circuit opens and calls fail fast with
+ * CircuitOpenError; once `resetTimeoutMs` has passed a single probe call is let
+ * through and its outcome closes or re-opens the circuit. Other calls keep
+ * failing fast until the probe settles.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private listeners: Array<(state: CircuitState) => void> = [];
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  onStateChange(listener: (state: CircuitState) => void): void {
+    this.listeners.push(listener);
+  }
+
+  async execute<T>(task: () => Promise<T>): Promise<T> {
+    if (this.state === "open") {
+      const retryAt = this.openedAt + this.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(retryAt);
+      }
+      this.transition("half-open");
+    } else if (this.state === "half-open" && this.probeInFlight) {
+      throw new CircuitOpenError(Date.now());
+    }
+
+    const probe = this.state === "half-open";
+    this.probeInFlight = probe;
+    try {
+      const result = await task();
+      this.failures = 0;
+      this.transition("closed");
+      return result;
+    } catch (error) {
+      // Only transport failures count; a bad answer means the backend is up.
+      if (isRetryable(error)) {
+        this.recordFailure();
+      }
+      throw error;
+    } finally {
+      if (probe) {
+        this.probeInFlight = false;
+      }
+    }
+  }
+
+  private recordFailure(): void {
+    this.failures += 1;
+    if (this.state === "half-open" || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    if (this.state === next) {
+      return;
+    }
+
+    console.warn(`[circuit] ${this.state} -> ${next}`);
+    this.state = next;
+    this.listeners.forEach((listener) => listener(next));
+  }
+}
@@ -0,0 +1,115 @@
+import { createHash } from "crypto";
+import type { LLMProvider } from "./llm-provider";
+import { LLMProviderError } from "./llm-errors";
+
+// Static context attached to a request: the text itself, plus the provider-side
+// cache handle when the backend holds a copy of it.
+export interface CachedContext {
+  hash: string;
+  text: string;
+  handle?: string;
+}
+
+interface ContextCacheEntry {
+  hash: string;
+  text: string;
+  handle?: string;
+  expiresAt: number; // of the handle, or when to try again after a transient failure
+  unsupported: boolean; // provider refused to cache it (e.g. below its minimum size)
+}
+
+// Wait before retrying a cache upload that failed for a transient reason (rate limit, 5xx).
+const RETRY_AFTER_MS = 60_000;
+
+/**
+ * Caches static prompt context (the case bible) by content hash. Backends with
+ * explicit context caching get the text uploaded once per hash and model and
+ * referenced by handle afterwards; for the others the identical text is reused
+ * as a stable prompt prefix so their automatic prefix caching can kick in.
+ */
+export class ContextCache {
+  private entries = new Map<string, ContextCacheEntry>();
+  private pending = new Map<string, Promise<ContextCacheEntry>>();
+  private latest = new Map<string, string>(); // model -> key of the context last resolved for it
+
+  constructor(
+    private readonly provider: LLMProvider,
+    private readonly ttlSeconds: number = 3600,
+  ) {}
+
+  async resolve(model: string, text: string): Promise<CachedContext> {
+    const hash = hashContent(text);
+    const key = `${model}:${hash}`;
+    const existing = this.entries.get(key);
+    // Refresh a minute early so a handle never expires mid-request.
+    if (existing && (existing.unsupported || existing.expiresAt - 60_000 > Date.now())) {
+      return { hash, text, handle: existing.handle };
+    }
+
+    // Concurrent calls for the same context share a single upload.
+    let creation = this.pending.get(key);
+    if (!creation) {
+      creation = this.create(model, hash, text).finally(() => this.pending.delete(key));
+      this.pending.set(key, creation);
+    }
+
+    const entry = await creation;
+    this.entries.set(key, entry);
+    this.supersede(model, key);
+    return { hash, text, handle: entry.handle };
+  }
+
+  // Each model has one live context (the current case bible); the one it
+  // replaces is deleted on the provider instead of being billed until its TTL.
+  private supersede(model: string, key: string): void {
+    const previous = this.latest.get(model);
+    this.latest.set(model, key);
+    if (!previous || previous === key) {
+      return;
+    }
+
+    const handle = this.entries.get(previous)?.handle;
+    this.entries.delete(previous);
+    if (handle && this.provider.deleteCache) {
+      this.provider.deleteCache(handle).then(
+        () => console.log(`[context cache] deleted superseded ${handle}`),
+        (error) => console.warn(`[context cache] could not delete ${handle}:`, (error as Error).message),
+      );
+    }
+  }
+
+  private async create(model: string, hash: string, text: string): Promise<ContextCacheEntry> {
+    const entry: ContextCacheEntry = {
+      hash,
+      text,
+      expiresAt: Date.now() + this.ttlSeconds * 1000,
+      unsupported: !this.provider.createCache,
+    };
+
+    if (!this.provider.createCache) {
+      return entry;
+    }
+
+    try {
+      entry.handle = await this.provider.createCache({ model, text, ttlSeconds: this.ttlSeconds });
+      console.log(`[context cache] cached ${hash.slice(0, 12)} on ${this.provider.name} as ${entry.handle}`);
+    } catch (error) {
+      // Rejected requests (too small, caching not supported) fail the same way every time;
+      // anything else is retried once RETRY_AFTER_MS has passed.
+      entry.unsupported = error instanceof LLMProviderError && !error.retryable;
+      if (!entry.unsupported) {
+        entry.expiresAt = Date.now() + RETRY_AFTER_MS + 60_000; // resolve() refreshes a minute early
+      }
+      console.warn(
+        `[context cache] ${this.provider.name} could not cache context, sending it inline${entry.unsupported ? "" : " for now"}:`,
+        (error as Error).message,
+      );
+    }
+
+    return entry;
+  }
+}
+
+export function hashContent(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
@@ -0,0 +1,127 @@
+import type { GenAIClient, JsonSchema } from "./genai-client";
+import { isTestifying, type CharacterProfile } from "./character-manager";
+import type { EvidenceItem } from "./case-manager";
+import type { CaseTruth } from "./truth-generator";
+import { Type } from "@google/genai";
+import { renderPrompt } from "./prompt-templates";
+import { CassetteMissError } from "./cassette-client";
+
+// A false claim a witness is steered to make in testimony, and the piece of
+// evidence that proves it wrong.
+export interface Contradiction {
+  id: string;
+  witnessId: number;
+  claim: string;
+  evidenceId: string;
+  explanation: string; // why the evidence contradicts the claim
+}
+
+export interface ContradictionOptions {
+  model?: string;
+  count?: number; // how many contradictions to plan (default 3)
+}
+
+interface GeneratedContradiction {
+  witness: string;
+  claim: string;
+  evidenceId: string;
+  explanation: string;
+}
+
+const DEFAULT_COUNT = 3;
+
+/**
+ * Plans the statements the player has to catch. Entries naming an unknown
+ * witness or evidence id are dropped, so the result may be shorter than asked.
+ */
+export async function generateContradictions(
+  genai: GenAIClient | null,
+  storyPrompt: string,
+  characters: CharacterProfile[],
+  evidences: EvidenceItem[],
+  truth: CaseTruth | null,
+  options: ContradictionOptions = {},
+): Promise<Contradiction[]> {
+  const witnesses = characters.filter((c) => isTestifying(c));
+  if (!genai || !witnesses.length || !evidences.length) {
+    return [];
+  }
+
+  const count = Math.max(1, options.count ?? DEFAULT_COUNT);
+  try {
+    const prompt = buildPrompt(storyPrompt, characters, evidences, truth, count);
+    const schema = buildSchema(witnesses, evidences, count);
+    const raw = await genai.generateJson<GeneratedContradiction[]>(prompt, schema, { task: "contradictions", model: options.model });
+
+    const byName = new Map(witnesses.map((c) => [c.name.toLowerCase(), c.id]));
+    const evidenceIds = new Set(evidences.map((e) => e.id));
+    return raw.flatMap((entry, index) => {
+      const witnessId = byName.get(entry.witness.trim().toLowerCase());
+      if (witnessId === undefined || !evidenceIds.has(entry.evidenceId)) {
+        console.warn(`generateContradictions: dropping "${entry.claim}" (unknown witness or evidence)`);
+        return [];
+      }
+
+      return [{
+        id: `c${index + 1}`,
+        witnessId,
+        claim: entry.claim.trim(),
+        evidenceId: entry.evidenceId,
+        explanation: entry.explanation.trim(),
+      }];
+    });
+  } catch (error) {
+    if (error instanceof CassetteMissError) {
+      throw error;
+    }
+    console.error("generateContradictions failed:", error);
+    return [];
+  }
+}
+
+function buildPrompt(
+  storyPrompt: string,
+  characters: CharacterProfile[],
+  evidences: EvidenceItem[],
+  truth: CaseTruth | null,
+  count: number,
+): string {
+  const nameOf = (id: number) => characters.find((c) => c.id === id)?.name ?? "unknown";
+  const truthText = truth
+    ? [
+      `Culprit: ${nameOf(truth.culpritId)}`,
+      `Motive: ${truth.motive}`,
+      `Method: ${truth.method}`,
+      ...truth.timeline.map((entry) => `${entry.time} ${entry.event}`),
+    ].join("\n")
+    : "";
+
+  return renderPrompt("contradictions", {
+    storyPrompt,
+    truth: truthText,
+    characters: characters
+      .filter((c) => isTestifying(c))
+      .map((c) => `- ${c.name} (${c.role})${c.description ? `: ${c.description}` : ""}`)
+      .join("\n"),
+    evidences: evidences.map((e) => `- [${e.id}] ${e.name}${e.description ? `: ${e.description}` : ""}`).join("\n"),
+    count: String(count),
+  });
+}
+
+function buildSchema(witnesses: CharacterProfile[], evidences: EvidenceItem[], count: number): JsonSchema {
+  return {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      required: ["witness", "claim", "evidenceId", "explanation"],
+      properties: {
+        witness: { type: Type.STRING, enum: witnesses.map((c) => c.name) },
+        claim: { type: Type.STRING, description: "The false statement, as the witness would say it in testimony. One sentence." },
+        evidenceId: { type: Type.STRING, enum: evidences.map((e) => e.id) },
+        explanation: { type: Type.STRING, description: "Why the evidence proves the claim wrong. <= 40 words." },
+      },
+    },
+    minItems: String(count),
+    maxItems: String(count),
+  };
+}
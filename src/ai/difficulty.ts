@@ -0,0 +1,69 @@
+export type Difficulty = "easy" | "normal" | "hard" | "nightmare";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "normal", "hard", "nightmare"];
+
+export interface DifficultySettings {
+  evidenceCount: { min: number; max: number };
+  evidenceClarity: string; // how obvious the evidence should be, for the evidence prompt
+  contradictions: number; // planned contradictions per case
+  witnessEvasiveness: string; // how witnesses and defendants testify
+  prosecutorAggression: string; // how often and how hard the prosecutor objects
+  mistakesAllowed: number; // wrong presentations/objections before a guilty verdict
+}
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, DifficultySettings> = {
+  easy: {
+    evidenceCount: { min: 3, max: 5 },
+    evidenceClarity: "Make each item's relevance obvious from its description.",
+    contradictions: 2,
+    witnessEvasiveness: "You are cooperative: answer questions directly and slip up easily when pressed.",
+    prosecutorAggression: "Object rarely and only to clear mistakes by the defense.",
+    mistakesAllowed: 5,
+  },
+  normal: {
+    evidenceCount: { min: 4, max: 8 },
+    evidenceClarity: "Keep descriptions factual; the player should have to think about what each item implies.",
+    contradictions: 3,
+    witnessEvasiveness: "You are guarded: answer what you are asked, but do not volunteer details that hurt you.",
+    prosecutorAggression: "Object when the defense makes a weak or unsupported claim.",
+    mistakesAllowed: 3,
+  },
+  hard: {
+    evidenceCount: { min: 6, max: 9 },
+    evidenceClarity: "Keep descriptions terse and include a few items that look important but are red herrings.",
+    contradictions: 4,
+    witnessEvasiveness: "You are evasive: deflect, give vague answers and change the subject unless pinned down with evidence.",
+    prosecutorAggression: "Object often, attack every gap in the defense's reasoning, and defend your witnesses.",
+    mistakesAllowed: 2,
+  },
+  nightmare: {
+    evidenceCount: { min: 8, max: 10 },
+    evidenceClarity: "Keep descriptions terse; bury the decisive detail in one item and add several convincing red herrings.",
+    contradictions: 5,
+    witnessEvasiveness: "You are hostile and cunning: lie smoothly, contradict only under direct evidence, and never volunteer anything.",
+    prosecutorAggression: "Object relentlessly, interrupt the defense and demand evidence for every claim.",
+    mistakesAllowed: 1,
+  },
+};
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === "string" && (DIFFICULTIES as string[]).includes(value);
+}
+
+export function getDifficultySettings(difficulty: Difficulty = "normal"): DifficultySettings {
+  return DIFFICULTY_SETTINGS[difficulty];
+}
+
+// Behavior line for a speaker of `role`, or "" for roles difficulty doesn't change.
+export function describeDemeanor(role: string | undefined, difficulty: Difficulty): string {
+  const settings = getDifficultySettings(difficulty);
+  switch (role?.toLowerCase()) {
+    case "witness":
+    case "defendant":
+      return settings.witnessEvasiveness;
+    case "prosecutor":
+      return settings.prosecutorAggression;
+    default:
+      return "";
+  }
+}
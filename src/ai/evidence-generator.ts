@@ -1,6 +1,9 @@
 import type { GenAIClient, JsonSchema } from "./genai-client";
 import type { EvidenceItem } from "./case-manager";
 import { Type } from "@google/genai";
+import { renderPrompt } from "./prompt-templates";
+import { getDifficultySettings, type Difficulty } from "./difficulty";
+import { CassetteMissError } from "./cassette-client";
 
 const FALLBACK_EVIDENCE: EvidenceItem[] = [
   {
@@ -19,37 +22,47 @@ const FALLBACK_EVIDENCE: EvidenceItem[] = [
   },
 ];
 
+export interface EvidenceOptions {
+  model?: string;
+  difficulty?: Difficulty; // number of items and how obvious they are
+  theme?: string; // theme pack constraints, see compileThemeConstraints
+}
+
 export async function generateEvidence(
   genai: GenAIClient | null,
   extraText: string = "",
+  options: EvidenceOptions = {},
 ): Promise<EvidenceItem[]> {
   if (!genai) {
     return FALLBACK_EVIDENCE;
   }
 
   try {
-    const prompt = buildPrompt(extraText);
-    const schema = buildSchema();
-    const parsed = await genai.generateJson<EvidenceItem[]>(prompt, schema);
+    const settings = getDifficultySettings(options.difficulty);
+    const prompt = buildPrompt(extraText, settings.evidenceClarity, options.theme ?? "");
+    const schema = buildSchema(settings.evidenceCount.min, settings.evidenceCount.max);
+    const parsed = await genai.generateJson<EvidenceItem[]>(prompt, schema, { task: "evidence", model: options.model });
     return parsed.length > 0 ? parsed : FALLBACK_EVIDENCE;
   } catch (error) {
+    if (error instanceof CassetteMissError) {
+      throw error;
+    }
     console.error("generateEvidence failed, using fallback:", error);
     return FALLBACK_EVIDENCE;
   }
 }
 
-function buildPrompt(extraText: string): string {
-  return [
-    "Return a JSON array evidence items for an Ace Attorney style trial. Must include something like an autopsy report describing the victim.",
-    "Each item fields: id (slug), name, description, type ('image' or 'video'), url (may be empty).",
-    "Keep it concise; no markdown.",
-    extraText ? `Also include: ${extraText}` : "",
-  ]
-    .filter(Boolean)
-    .join("\n");
+// True when `evidence` is the built-in fallback returned after a failed generation.
+export function isFallbackEvidence(evidence: EvidenceItem[]): boolean {
+  return evidence.length === FALLBACK_EVIDENCE.length &&
+    evidence.every((item, index) => item.id === FALLBACK_EVIDENCE[index]!.id && item.name === FALLBACK_EVIDENCE[index]!.name);
+}
+
+function buildPrompt(extraText: string, clarity: string, theme: string): string {
+  return renderPrompt("evidence", { extraText, clarity, theme });
 }
 
-function buildSchema(): JsonSchema {
+function buildSchema(minItems: number, maxItems: number): JsonSchema {
   return {
     type: Type.ARRAY,
     items: {
@@ -63,7 +76,7 @@ function buildSchema(): JsonSchema {
         url: { type: Type.STRING },
       },
     },
-    minItems: "4",
-    maxItems: "8",
+    minItems: String(minItems),
+    maxItems: String(maxItems),
   };
 }
@@ -0,0 +1,82 @@
+import type { EvidenceItem } from "./case-manager";
+import type { Contradiction } from "./contradiction-generator";
+
+export type EvidenceVisibility = "visible" | "hidden" | "retracted";
+
+/**
+ * When a hidden item reaches the court record. `by` is the character who
+ * submits it in court (the prosecutor when absent); investigation finds are
+ * handed over by whoever the defense is questioning.
+ */
+export type EvidenceReveal =
+  | { when: "keyPoint"; keyPoint: number; by?: number } // index into the case key points, once reached
+  | { when: "contradiction"; contradictionId: string; by?: number } // once that contradiction is exposed
+  | { when: "pressed"; characterId: number; by?: number } // once the defense presses that character
+  | { when: "investigation"; day: number }; // found during that day's investigation
+
+// Something that happened in the trial and may satisfy a reveal condition.
+export type RevealTrigger =
+  | { type: "keyPoint"; keyPoint: number }
+  | { type: "contradiction"; contradictionId: string }
+  | { type: "pressed"; characterId: number };
+
+// Items without a visibility start in the court record, unless a reveal condition holds them back.
+export function isVisibleAtStart(item: EvidenceItem): boolean {
+  return (item.visibility ?? (item.reveal ? "hidden" : "visible")) === "visible";
+}
+
+export function matchesReveal(reveal: EvidenceReveal | undefined, trigger: RevealTrigger): boolean {
+  switch (reveal?.when) {
+    case "keyPoint":
+      return trigger.type === "keyPoint" && trigger.keyPoint >= reveal.keyPoint;
+    case "contradiction":
+      return trigger.type === "contradiction" && trigger.contradictionId === reveal.contradictionId;
+    case "pressed":
+      return trigger.type === "pressed" && trigger.characterId === reveal.characterId;
+    default:
+      return false;
+  }
+}
+
+export function foundOnDay(item: EvidenceItem): number | null {
+  return item.reveal?.when === "investigation" ? item.reveal.day : null;
+}
+
+export function describeReveal(reveal: EvidenceReveal | undefined): string {
+  switch (reveal?.when) {
+    case "keyPoint":
+      return `after key point ${reveal.keyPoint + 1}`;
+    case "contradiction":
+      return `when contradiction ${reveal.contradictionId} is exposed`;
+    case "pressed":
+      return `when character ${reveal.characterId} is pressed`;
+    case "investigation":
+      return `in the day ${reveal.day} investigation`;
+    default:
+      return "manually";
+  }
+}
+
+/**
+ * Chains the contradictions of a one-day trial: the evidence for each
+ * contradiction after the first is held back until the previous one is
+ * exposed, so the court record grows as the defense makes progress. Evidence
+ * the first contradiction or nothing needs stays visible.
+ */
+export function planEvidenceReveals(evidences: EvidenceItem[], contradictions: Contradiction[]): EvidenceItem[] {
+  const reveals = new Map<string, EvidenceReveal>();
+  const needed = new Set<string>();
+
+  contradictions.forEach((c, index) => {
+    const previous = contradictions[index - 1];
+    if (previous && !needed.has(c.evidenceId)) {
+      reveals.set(c.evidenceId, { when: "contradiction", contradictionId: previous.id });
+    }
+    needed.add(c.evidenceId);
+  });
+
+  return evidences.map((item) => {
+    const reveal = reveals.get(item.id);
+    return reveal ? { ...item, visibility: "hidden", reveal } : item;
+  });
+}
@@ -1,93 +1,189 @@
-import { GoogleGenAI, type Schema } from "@google/genai";
+import type { Schema } from "@google/genai";
+import { createLLMProvider, type LLMRequest } from "./llm-provider";
+import { StructuredOutputError, validateAgainstSchema } from "./schema-validator";
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from "./retry";
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from "./circuit-breaker";
+import type { LLMTask, LLMUsage, UsageTracker } from "./usage-tracker";
+import { parsePartialJson } from "./partial-json";
+import { ContextCache } from "./context-cache";
+
+// One earlier message of the conversation. "model" turns are the speaker's own
+// lines; everything else (player, other characters) is a "user" turn.
+export interface ChatTurn {
+  role: "user" | "model";
+  name?: string;
+  text: string;
+}
+
+export interface GenerateOptions {
+  task?: LLMTask; // call site, used for usage accounting
+  model?: string; // per-call override of the client's default model
+  systemInstruction?: string; // stable context (case bible, character sheet)
+  history?: ChatTurn[]; // conversation so far, oldest first, sent before the prompt
+  cachedContext?: string; // static text reused across many calls (the case bible)
+}
+
+export type DeepPartial<T> = T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+// Incremental view of a streamed JSON response; `done` carries the validated result.
+export type JsonStreamEvent<T> =
+  | { type: "partial"; value: DeepPartial<T> }
+  | { type: "done"; value: T };
 
 export interface GenAIClient {
   model: string;
-  generateJson: <T>(prompt: string, schema: JsonSchema) => Promise<T>;
+  generateJson: <T>(prompt: string, schema: JsonSchema, options?: GenerateOptions) => Promise<T>;
+  streamJson: <T>(prompt: string, schema: JsonSchema, options?: GenerateOptions) => AsyncIterable<JsonStreamEvent<T>>;
+  onCircuitStateChange?: (listener: (state: CircuitState) => void) => void;
+  seed?: number; // set by cassettes, so prompts with random picks replay identically
 }
 
 export interface GenAIConfig {
   model?: string;
   apiKey: string;
   systemInstruction?: string;
+  provider?: string; // gemini (default), openai, ollama, llamacpp
+  baseUrl?: string;
+  maxRepairAttempts?: number; // extra requests allowed when the output breaks the schema
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: CircuitBreakerOptions;
+  usage?: UsageTracker;
+  contextCacheTtlSeconds?: number;
 }
 
 export type JsonSchema = Schema;
 
 export function createGenAIClient(config: GenAIConfig): GenAIClient | null {
-  const client = new GoogleGenAI({
-    apiKey: config.apiKey,
-  });
-  const model = config.model ?? "gemini-2.5-flash";
+  const provider = createLLMProvider(config);
+  const model = config.model ?? provider.defaultModel;
+  const maxRepairAttempts = Math.max(0, config.maxRepairAttempts ?? 2);
+  const retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+  const breaker = new CircuitBreaker(config.circuitBreaker);
+  const contextCache = new ContextCache(provider, config.contextCacheTtlSeconds);
 
-  return {
-    model,
-    async generateJson<T>(prompt: string, schema: JsonSchema): Promise<T> {
-      console.log("[genai] request", { model, prompt, schema });
-      const response = await client.models.generateContent({
-        model,
-        config: {
-          systemInstruction: prompt,
-          responseMimeType: 'application/json',
-            responseSchema: {
-              ...schema as Record<string, unknown>,
-            },
-            responseJsonSchema: {
-                ...schema as Record<string, unknown>
-            }
-        },
-        contents: [
-          //TODO speechlog right before prompt
-          {
-            role: "user",
-            parts: [{ text: prompt }],
-          },
-        ],
-      });
-
-      return parseJsonOrCoerce<T>(await extractText(response), schema);
-    },
-  };
-}
+  function recordUsage(options: GenerateOptions, usage: LLMUsage | undefined): void {
+    if (usage && options.task) {
+      config.usage?.record(options.task, options.model ?? model, usage);
+    }
+  }
 
-// Try to parse JSON, but fall back to a best-effort object (helps when the model
-// returns bare text instead of valid JSON).
-function parseJsonOrCoerce<T>(text: string, schema: JsonSchema): T {
-  const cleaned = text?.trim() ?? "";
+  async function buildRequest(prompt: string, schema: JsonSchema, options: GenerateOptions): Promise<LLMRequest> {
+    const requestModel = options.model ?? model;
+    return {
+      model: requestModel,
+      prompt,
+      schema,
+      systemInstruction: options.systemInstruction ?? config.systemInstruction,
+      history: options.history,
+      cachedContext: options.cachedContext
+        ? await contextCache.resolve(requestModel, options.cachedContext)
+        : undefined,
+    };
+  }
 
-  try {
-    return JSON.parse(cleaned) as T;
-  } catch (error) {
-    console.warn("[genai] JSON parse failed, coercing", { error });
+  async function requestText(prompt: string, schema: JsonSchema, options: GenerateOptions): Promise<string> {
+    const request = await buildRequest(prompt, schema, options);
+    const response = await breaker.execute(() =>
+      withRetry(() => provider.generate(request), retryPolicy, provider.name),
+    );
+    recordUsage(options, response.usage);
+    return response.text;
   }
 
-  const promptLike = (schema as { properties?: { prompt?: unknown } })?.properties?.prompt;
-  if (promptLike && typeof cleaned === "string") {
-    return { prompt: cleaned } as unknown as T;
+  // Validates the output and asks the model to repair it until it matches the
+  // schema. `firstText` is an already received (e.g. streamed) first attempt.
+  async function resolveStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    options: GenerateOptions,
+    firstText?: string,
+  ): Promise<T> {
+    let attemptPrompt = prompt;
+    let violations: string[] = [];
+    let rawText = "";
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt += 1) {
+      if (attempt === 0 && firstText !== undefined) {
+        rawText = firstText;
+      } else {
+        console.log("[genai] request", { provider: provider.name, model: options.model ?? model, attempt, prompt: attemptPrompt, schema });
+        rawText = await requestText(attemptPrompt, schema, options);
+      }
+
+      const parsed = parseJson(rawText);
+      violations = parsed.ok ? validateAgainstSchema(parsed.value, schema) : [parsed.error];
+      if (parsed.ok && !violations.length) {
+        return parsed.value as T;
+      }
+
+      console.warn("[genai] structured output rejected", { attempt, violations });
+      attemptPrompt = buildRepairPrompt(prompt, rawText, violations);
+    }
+
+    throw new StructuredOutputError(violations, rawText, maxRepairAttempts + 1);
   }
 
-  // Last resort: wrap the raw string.
-  return { value: cleaned } as unknown as T;
-}
+  return {
+    model,
+    onCircuitStateChange: (listener) => breaker.onStateChange(listener),
+    async generateJson<T>(prompt: string, schema: JsonSchema, options: GenerateOptions = {}): Promise<T> {
+      return resolveStructured<T>(prompt, schema, options);
+    },
+    async *streamJson<T>(prompt: string, schema: JsonSchema, options: GenerateOptions = {}): AsyncGenerator<JsonStreamEvent<T>> {
+      if (!provider.stream) {
+        yield { type: "done", value: await resolveStructured<T>(prompt, schema, options) };
+        return;
+      }
+
+      const request = await buildRequest(prompt, schema, options);
+      console.log("[genai] stream request", { provider: provider.name, model: request.model, prompt, schema });
+      // Only opening the stream is retried; a stream that breaks halfway fails the call.
+      const { iterator, first } = await breaker.execute(() =>
+        withRetry(async () => {
+          const iterator = provider.stream!(request)[Symbol.asyncIterator]();
+          return { iterator, first: await iterator.next() };
+        }, retryPolicy, provider.name),
+      );
+
+      let text = "";
+      let usage: LLMUsage | undefined;
+      for (let step = first; !step.done; step = await iterator.next()) {
+        text += step.value.text;
+        usage = step.value.usage ?? usage;
 
-async function extractText(response: unknown): Promise<string> {
-  const responseObject = response as {
-    text?: string | (() => Promise<string>);
-    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+        const partial = parsePartialJson(text);
+        if (partial !== undefined && step.value.text) {
+          yield { type: "partial", value: partial as DeepPartial<T> };
+        }
+      }
+
+      recordUsage(options, usage);
+      yield { type: "done", value: await resolveStructured<T>(prompt, schema, options, text) };
+    },
   };
+}
 
-  if (typeof responseObject.text === "function") {
-    const text = await responseObject.text();
-    return text?.trim() ?? "";
-  }
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  // Some models wrap JSON in markdown fences even when asked not to.
+  const cleaned = (text ?? "").trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
 
-  if (typeof responseObject.text === "string") {
-    return responseObject.text.trim();
+  try {
+    return { ok: true, value: JSON.parse(cleaned) };
+  } catch (error) {
+    return { ok: false, error: `$: response is not valid JSON (${(error as Error).message})` };
   }
+}
 
-  const parts = responseObject.candidates
-    ?.flatMap((candidate) => candidate.content?.parts ?? [])
-    .map((part) => part.text)
-    .filter((text): text is string => Boolean(text));
-
-  return parts?.join("").trim() ?? "";
+function buildRepairPrompt(prompt: string, rawText: string, violations: string[]): string {
+  return [
+    prompt,
+    "",
+    "Your previous response did not match the required JSON schema:",
+    rawText,
+    "",
+    "Problems found:",
+    ...violations.map((violation) => `- ${violation}`),
+    "",
+    "Return the corrected JSON only (no markdown), fixing every problem listed above.",
+  ].join("\n");
 }
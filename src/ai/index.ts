@@ -6,17 +6,76 @@ export type {
   EvidenceItem,
   NextBeatOptions,
   NextBeatResult,
+  PlayerActionOutcome,
+  PlayerActionResult,
 } from "./case-manager";
-export { CharacterManager } from "./character-manager";
+export { CharacterManager, isCourtOfficial, isTestifying } from "./character-manager";
 export type {
   CharacterMemory,
   CharacterProfile,
   CharacterSpeech,
+  SpeechGenerationOptions,
 } from "./character-manager";
 export { StoryManager } from "./story-manager";
 export type { SpeakerCandidate, StoryManagerOptions, SpeechDraft, SceneSuggestion } from "./story-manager";
 export { createGenAIClient } from "./genai-client";
-export type { GenAIClient, GenAIConfig } from "./genai-client";
+export type { ChatTurn, GenAIClient, GenAIConfig, GenerateOptions } from "./genai-client";
+export { UsageTracker, estimateCost } from "./usage-tracker";
+export type { BudgetStatus, LLMTask, LLMUsage, UsageBudget, UsageTotals } from "./usage-tracker";
+export { CircuitOpenError, LLMProviderError } from "./llm-errors";
+export { CircuitBreaker } from "./circuit-breaker";
+export type { CircuitBreakerOptions, CircuitState } from "./circuit-breaker";
+export { withRetry } from "./retry";
+export type { RetryPolicy } from "./retry";
+export { StructuredOutputError, validateAgainstSchema } from "./schema-validator";
+export { CassetteMissError, createCassetteClient } from "./cassette-client";
+export type { CassetteEntry, CassetteMode, CassetteOptions } from "./cassette-client";
+export { createLLMProvider, getLLMProviderNames, registerLLMProvider } from "./llm-provider";
+export type { LLMCacheRequest, LLMProvider, LLMProviderFactory, LLMRequest, LLMResponse } from "./llm-provider";
+export { ContextCache } from "./context-cache";
+export type { CachedContext } from "./context-cache";
 export { generateTrialCharacters } from "./character-generator";
+export type { CharacterGenerationOptions } from "./character-generator";
 export { generateCasePrompt } from "./story-generator";
-export { generateEvidence } from "./evidence-generator";
\ No newline at end of file
+export type { CasePromptOptions } from "./story-generator";
+export { generateEvidence, isFallbackEvidence } from "./evidence-generator";
+export { describeTruthFor, generateCaseTruth } from "./truth-generator";
+export type { CaseTruth, CaseTruthOptions, TimelineEvent } from "./truth-generator";
+export { generateContradictions } from "./contradiction-generator";
+export type { Contradiction, ContradictionOptions } from "./contradiction-generator";
+export { generateTestimony } from "./testimony-generator";
+export type { TestimonyOptions, TestimonyStatement } from "./testimony-generator";
+export { findMentionedEvidence, matchEvidence, parsePlayerCommand } from "./player-commands";
+export type { PlayerCommand } from "./player-commands";
+export { detectResolution } from "./verdict";
+export type { ResolutionReason, ResolutionState, TrialResult } from "./verdict";
+export { buildCase, checkSolvability, formatCaseReport } from "./case-builder";
+export { CASE_FILE_VERSION, CaseFileError, defaultCaseTitle, loadCaseFile, parseCaseFile, readCaseFile, saveCaseFile, writeCaseFile } from "./case-file";
+export type { CaseFile, CaseMeta } from "./case-file";
+export { CaseLibrary } from "./case-library";
+export type { CaseLibraryEntry } from "./case-library";
+export { CaseQueue, describeQueuedCase } from "./case-queue";
+export type { QueuedCase } from "./case-queue";
+export { Campaign } from "./campaign";
+export type { CampaignFile, EpisodeRecord, EpisodeResult, EpisodeVerdict, RecurringCharacter } from "./campaign";
+export { ThemePackError, applyThemePresets, checkThemePack, compileThemeConstraints, getThemePresetIds, loadThemePack, parseThemePack } from "./theme-pack";
+export type { ThemeConstraints, ThemePack } from "./theme-pack";
+export { describeReveal, foundOnDay, isVisibleAtStart, matchesReveal, planEvidenceReveals } from "./evidence-reveal";
+export type { EvidenceReveal, EvidenceVisibility, RevealTrigger } from "./evidence-reveal";
+export { TRIAL_PHASES, TrialPhaseMachine } from "./trial-phase";
+export type { PhaseContext, TrialPhase } from "./trial-phase";
+export { FIRST_SEGMENT, courtDayTarget, describeSegment, isInvestigation, nextSegment, scheduleEvidence } from "./trial-days";
+export type { SegmentType, TrialSegment } from "./trial-days";
+export { DIFFICULTIES, DIFFICULTY_SETTINGS, describeDemeanor, getDifficultySettings, isDifficulty } from "./difficulty";
+export type { Difficulty, DifficultySettings } from "./difficulty";
+export type { CaseAttemptReport, CaseBuildOptions, CaseBuildResult } from "./case-builder";
+export type { EvidenceOptions } from "./evidence-generator";
+export {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TEMPLATE_VARIABLES,
+  PromptTemplateError,
+  loadPromptTemplates,
+  renderPrompt,
+  validatePromptTemplate,
+} from "./prompt-templates";
+export type { PromptTemplateName, PromptVariables } from "./prompt-templates";
@@ -0,0 +1,85 @@
+import type { JsonSchema } from "./genai-client";
+
+export type StandardJsonSchema = Record<string, unknown>;
+
+const NUMERIC_KEYWORDS = [
+  "minItems",
+  "maxItems",
+  "minLength",
+  "maxLength",
+  "minProperties",
+  "maxProperties",
+  "minimum",
+  "maximum",
+] as const;
+
+const PASSTHROUGH_KEYWORDS = [
+  "description",
+  "enum",
+  "format",
+  "pattern",
+  "title",
+  "default",
+  "additionalProperties",
+] as const;
+
+// Translate our schema dialect (Gemini `Schema` with upper-case `Type` values and
+// int64-as-string limits, or plain JSON Schema) into standard JSON Schema that
+// OpenAI-compatible and local backends understand.
+export function toStandardJsonSchema(schema: JsonSchema): StandardJsonSchema {
+  const source = schema as Record<string, unknown>;
+  const result: StandardJsonSchema = {};
+
+  const type = normalizeType(source.type);
+  if (type !== undefined) {
+    result.type = source.nullable && !Array.isArray(type) ? [type, "null"] : type;
+  }
+
+  PASSTHROUGH_KEYWORDS.forEach((key) => {
+    if (source[key] !== undefined) {
+      result[key] = source[key];
+    }
+  });
+
+  NUMERIC_KEYWORDS.forEach((key) => {
+    const value = source[key];
+    if (value !== undefined && value !== null && !Number.isNaN(Number(value))) {
+      result[key] = Number(value);
+    }
+  });
+
+  if (Array.isArray(source.required)) {
+    result.required = [...source.required];
+  }
+
+  if (source.properties && typeof source.properties === "object") {
+    result.properties = Object.fromEntries(
+      Object.entries(source.properties as Record<string, JsonSchema>).map(([key, value]) => [
+        key,
+        toStandardJsonSchema(value),
+      ]),
+    );
+  }
+
+  if (source.items && typeof source.items === "object") {
+    result.items = toStandardJsonSchema(source.items as JsonSchema);
+  }
+
+  if (Array.isArray(source.anyOf)) {
+    result.anyOf = (source.anyOf as JsonSchema[]).map((entry) => toStandardJsonSchema(entry));
+  }
+
+  return result;
+}
+
+export function normalizeType(type: unknown): string | string[] | undefined {
+  if (typeof type === "string") {
+    return type.toLowerCase();
+  }
+
+  if (Array.isArray(type)) {
+    return type.map((entry) => String(entry).toLowerCase());
+  }
+
+  return undefined;
+}
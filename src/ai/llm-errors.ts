@@ -0,0 +1,38 @@
+// Transport-level failure reported by a backend (HTTP status, rate limits...).
+export class LLMProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly status: number | undefined,
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(`[${provider}] ${message}`);
+    this.name = "LLMProviderError";
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date.
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAtMs: number) {
+    super(`LLM circuit is open; next attempt allowed in ${Math.max(0, retryAtMs - Date.now())}ms`);
+    this.name = "CircuitOpenError";
+  }
+}
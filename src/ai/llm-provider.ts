@@ -0,0 +1,71 @@
+import type { ChatTurn, GenAIConfig, JsonSchema } from "./genai-client";
+import type { LLMUsage } from "./usage-tracker";
+import type { CachedContext } from "./context-cache";
+import { createGeminiProvider } from "./providers/gemini";
+import { createOpenAIProvider } from "./providers/openai";
+import { createLlamaCppProvider, createOllamaProvider } from "./providers/ollama";
+
+export interface LLMRequest {
+  model: string;
+  prompt: string; // final user turn
+  schema: JsonSchema;
+  systemInstruction?: string;
+  history?: ChatTurn[];
+  cachedContext?: CachedContext; // static prefix, sent before the system instruction
+}
+
+export interface LLMCacheRequest {
+  model: string;
+  text: string;
+  ttlSeconds: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  usage?: LLMUsage;
+}
+
+// One streamed piece of output: a text delta, and usage on the final chunk.
+export interface LLMStreamChunk {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  stream?(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+  // Explicit context caching; returns a handle to reference in `cachedContext`.
+  createCache?(request: LLMCacheRequest): Promise<string>;
+  deleteCache?(handle: string): Promise<void>;
+}
+
+export type LLMProviderFactory = (config: GenAIConfig) => LLMProvider;
+
+const providers = new Map<string, LLMProviderFactory>([
+  ["gemini", createGeminiProvider],
+  ["openai", createOpenAIProvider],
+  ["ollama", createOllamaProvider],
+  ["llamacpp", createLlamaCppProvider],
+]);
+
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providers.set(name.toLowerCase(), factory);
+}
+
+export function getLLMProviderNames(): string[] {
+  return Array.from(providers.keys());
+}
+
+export function createLLMProvider(config: GenAIConfig): LLMProvider {
+  const name = (config.provider ?? "gemini").toLowerCase();
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unknown LLM provider "${name}". Available providers: ${getLLMProviderNames().join(", ")}`,
+    );
+  }
+
+  return factory(config);
+}
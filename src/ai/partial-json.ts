@@ -0,0 +1,75 @@
+/**
+ * Best-effort parse of a JSON document that is still being streamed: open
+ * strings, arrays and objects are closed, and incomplete trailing tokens (a
+ * half-written key, `tru`, a dangling comma) are dropped. Returns undefined
+ * when nothing useful can be recovered yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const source = text.trimStart().replace(/^```(?:json)?\s*/i, "");
+  let end = source.length;
+
+  while (end > 0) {
+    const candidate = closeJson(source.slice(0, end));
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Back off to the previous delimiter and try again.
+    }
+
+    const previous = Math.max(
+      source.lastIndexOf(",", end - 1),
+      source.lastIndexOf("{", end - 1),
+      source.lastIndexOf("[", end - 1),
+    );
+    if (previous < 0) {
+      return undefined;
+    }
+
+    end = source[previous] === "," ? previous : previous + 1;
+  }
+
+  return undefined;
+}
+
+function closeJson(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      closers.push("}");
+    } else if (char === "[") {
+      closers.push("]");
+    } else if (char === "}" || char === "]") {
+      closers.pop();
+    }
+  }
+
+  let result = text;
+  if (inString) {
+    result = (escaped ? result.slice(0, -1) : result) + '"';
+  }
+
+  result = result.trimEnd();
+  if (result.endsWith(",")) {
+    result = result.slice(0, -1);
+  } else if (result.endsWith(":")) {
+    result += "null";
+  }
+
+  return result + closers.reverse().join("");
+}
@@ -0,0 +1,105 @@
+import type { EvidenceItem } from "./case-manager";
+
+/**
+ * What the defense does with a courtroom line. Anything else the player
+ * types is plain dialogue and goes to the characters unchanged.
+ */
+export type PlayerCommand =
+  | { type: "press" } // "Hold it!" or /press: press the statement on screen
+  | { type: "present"; evidence: string } // /present <name or id>
+  | { type: "objection"; text: string } // "Objection!", optionally naming the evidence that backs it
+  | { type: "step"; delta: number }; // > / < or /next / /prev: move through the testimony
+
+// Name similarity a fuzzy evidence match needs (Dice coefficient over letter pairs).
+const MIN_SIMILARITY = 0.5;
+
+export function parsePlayerCommand(text: string): PlayerCommand | null {
+  const line = text.trim();
+  const lower = line.toLowerCase();
+
+  if (lower === ">" || lower === "/next") {
+    return { type: "step", delta: 1 };
+  }
+  if (lower === "<" || lower === "/prev") {
+    return { type: "step", delta: -1 };
+  }
+  if (/^(hold it\b|\/press$)/.test(lower)) {
+    return { type: "press" };
+  }
+
+  const present = /^\/present\s+(.+)$/i.exec(line);
+  if (present) {
+    return { type: "present", evidence: (present[1] ?? "").trim() };
+  }
+
+  const objection = /^objection\b[!.]*\s*(.*)$/is.exec(line);
+  return objection ? { type: "objection", text: (objection[1] ?? "").trim() } : null;
+}
+
+/**
+ * The court-record item `query` refers to: an exact id or name, a name that
+ * contains it (or is contained in it), or failing that the most similar name.
+ * Null when nothing is close enough.
+ */
+export function matchEvidence(query: string, evidences: EvidenceItem[]): EvidenceItem | null {
+  const wanted = normalize(query);
+  if (!wanted) {
+    return null;
+  }
+
+  const exact = evidences.find((e) => e.id.toLowerCase() === query.trim().toLowerCase() || normalize(e.name) === wanted);
+  if (exact) {
+    return exact;
+  }
+
+  const partial = evidences.filter((e) => normalize(e.name).includes(wanted) || wanted.includes(normalize(e.name)));
+  if (partial.length === 1) {
+    return partial[0] ?? null;
+  }
+
+  let best: EvidenceItem | null = null;
+  let bestScore = MIN_SIMILARITY;
+  for (const item of partial.length ? partial : evidences) {
+    const score = similarity(wanted, normalize(item.name));
+    if (score >= bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Court-record items named anywhere in a free-text line, e.g. after "Objection!".
+export function findMentionedEvidence(text: string, evidences: EvidenceItem[]): EvidenceItem | null {
+  const line = normalize(text);
+  return line ? evidences.find((e) => normalize(e.name) && line.includes(normalize(e.name))) ?? null : null;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word && !["the", "a", "an", "my", "this"].includes(word))
+    .join(" ");
+}
+
+function similarity(a: string, b: string): number {
+  const pairs = (text: string) => Array.from({ length: Math.max(0, text.length - 1) }, (_, i) => text.slice(i, i + 2));
+  const left = pairs(a);
+  const right = pairs(b);
+  if (!left.length || !right.length) {
+    return a === b ? 1 : 0;
+  }
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      remaining.splice(index, 1);
+      shared += 1;
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
@@ -0,0 +1,211 @@
+import fs from "fs";
+import path from "path";
+
+// Variables each call site provides. A template may use any subset of them.
+export const PROMPT_TEMPLATE_VARIABLES = {
+  story: ["extraText", "continuity", "theme"],
+  evidence: ["extraText", "clarity", "theme"],
+  characters: ["storyPrompt", "characterIds", "continuity", "theme"],
+  truth: ["storyPrompt", "characters", "evidences"],
+  contradictions: ["storyPrompt", "truth", "characters", "evidences", "count"],
+  testimony: ["name", "role", "storyPrompt", "truth", "claims", "count"],
+  speaker: ["storyPrompt", "evidences", "lastSpeaker", "lastMessage", "transcript", "memories", "candidates"],
+  speech: ["prompt", "name", "role", "memories"],
+} as const satisfies Record<string, readonly string[]>;
+
+export type PromptTemplateName = keyof typeof PROMPT_TEMPLATE_VARIABLES;
+export type PromptVariables<N extends PromptTemplateName> = Record<(typeof PROMPT_TEMPLATE_VARIABLES)[N][number], string>;
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateName, string> = {
+  story: `Create a trial premise for an Ace Attorney style scene. Max 2 long paragraph describing the case, crime (what did the defendant do?), and the crime scene. Do NOT write plot, previous trials, court dialogue, or previous story events.
+Must include: Prosecutor Miles Edgeworth, a Judge, one or more Witnesses, and a Defendant. The player is the Defense (Phoenix Wright). Add an extra character disguised as witness or defendant to create intrigue or conflict.
+Plain text only, no markdown.
+{{#theme}}
+Theme constraints, follow them strictly:
+{{theme}}{{/theme}}
+{{#extraText}}Also include: {{extraText}}{{/extraText}}
+{{#continuity}}
+This case is part of an ongoing series. Stay consistent with it, and consider bringing back a recurring character or an unresolved thread:
+{{continuity}}{{/continuity}}`,
+
+  evidence: `Return a JSON array evidence items for an Ace Attorney style trial. Must include something like an autopsy report describing the victim.
+Each item fields: id (slug), name, description, type ('image' or 'video'), url (may be empty).
+Keep it concise; no markdown.
+{{clarity}}
+{{#theme}}
+Theme constraints, follow them strictly:
+{{theme}}{{/theme}}
+{{#extraText}}Also include: {{extraText}}{{/extraText}}`,
+
+  characters: `Generate characters for an Ace Attorney trial. Required roles:
+
+1. Prosecutor: Name MUST be 'Miles Edgeworth' (characterId 2)
+2. Judge: (characterId 10)
+3-4. At least TWO witnesses with ' - Wt' suffix (use different witness characterIds from the list below)
+5. Defendant with ' - Df' suffix (use a witness characterId)
+Optional: One extra character (witness or defendant) who is secretly disguised/suspicious to add intrigue.
+
+IMPORTANT: Witnesses and defendants should have interesting personalities and motivations that make them want to speak during the trial!
+
+DO NOT generate character for player (Defense Attorney, Phoenix Wright).
+Tone: Ace Attorney-inspired.
+Possible witness/defendant characterIds: {{characterIds}}... (assign unique IDs, no repeats)
+{{#theme}}
+Theme constraints, follow them strictly:
+{{theme}}{{/theme}}
+{{#continuity}}
+Series so far. If the storyline brings back a recurring character, use their exact name and let them remember what happened to them:
+{{continuity}}{{/continuity}}
+
+Storyline: {{storyPrompt}}`,
+
+  truth: `Decide what really happened in this Ace Attorney case. This is hidden from the player and the court; characters will only learn the parts they witnessed.
+Pick the real culprit from the characters (never the Judge or the Prosecutor). Give the motive, the method, and a minute-by-minute timeline of the crime from the first relevant event to the discovery, with who saw or knows each event.
+The timeline must fit the premise and the evidence so the case can be solved from the evidence alone.
+
+Premise: {{storyPrompt}}
+
+Characters:
+{{characters}}
+{{#evidences}}
+Evidence:
+{{evidences}}{{/evidences}}`,
+
+  contradictions: `Plan {{count}} contradictions for an Ace Attorney trial. Each one is a false claim a witness will make in their testimony, and the piece of evidence that proves it wrong.
+Claims must sound believable until the evidence is presented. Spread them over the witnesses and the evidence, and make at least one of them lead toward the real culprit.
+
+Premise: {{storyPrompt}}
+{{#truth}}
+What really happened (hidden from the court):
+{{truth}}{{/truth}}
+
+Witnesses:
+{{characters}}
+
+Evidence (use the id in brackets):
+{{evidences}}`,
+
+  testimony: `Write the testimony {{name}} ({{role}}) gives on the stand in an Ace Attorney trial: {{count}} short statements, in order, in their own voice. One sentence each, no stage directions.
+The testimony tells their version of events and must sound convincing.
+{{#claims}}
+Each of these claims must appear as one of the statements, worded naturally; set claimId to the id in brackets on that statement and to none on the others:
+{{claims}}{{/claims}}
+
+Premise: {{storyPrompt}}
+{{#truth}}
+What {{name}} really knows (never state it if it hurts them):
+{{truth}}{{/truth}}`,
+
+  speaker: `Story: {{storyPrompt}}
+{{#evidences}}Evidence: {{evidences}}{{/evidences}}
+{{#lastSpeaker}}Last speaker: {{lastSpeaker}}{{/lastSpeaker}}
+Last message: "{{lastMessage}}"
+{{#transcript}}Recent transcript:
+{{transcript}}{{/transcript}}
+{{#memories}}What the characters remember:
+{{memories}}{{/memories}}
+
+Who should speak next to continue the trial naturally?
+Consider: continuation needs, natural flow, courtroom dynamics, character memories.
+set speakerId to the id of the chosen character, or null to skip and let player speak. Briefly explain your choice in the reason field.
+
+Available characters:
+{{candidates}}`,
+
+  speech: `Prompt:
+{{prompt}}
+
+Return JSON only (no markdown) with: text (Character speech), scene (object with optional action, emotion, poseId), memory (array of short strings to remember), playerTurn, continueSpeech (boolean - set true if YOU want to speak again immediately after this message, If witness is being cross-examined, set to true so it can explain in detail). If you pick a poseId, use one from the available list. Keep memory entries concise (<=12 words) and only add when needed.`,
+};
+
+export class PromptTemplateError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid prompt templates:\n${problems.map((problem) => `- ${problem}`).join("\n")}`);
+    this.name = "PromptTemplateError";
+  }
+}
+
+const TAG = /\{\{\s*([#/]?)\s*([A-Za-z_]\w*)\s*\}\}/g;
+const SECTION = /\{\{\s*#\s*([A-Za-z_]\w*)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/g;
+// Stands in for empty output so lines left blank by it can be dropped.
+const EMPTY = "\u0000";
+
+let activeTemplates: Record<PromptTemplateName, string> = { ...DEFAULT_PROMPT_TEMPLATES };
+
+/**
+ * Replaces the built-in prompts with `<name>.txt` files from `dir` (story.txt,
+ * evidence.txt, characters.txt, truth.txt, contradictions.txt, testimony.txt,
+ * speaker.txt, speech.txt). Missing files keep the built-in default. Every template is
+ * checked before anything is swapped, so a bad file fails the startup instead
+ * of a call mid-trial.
+ */
+export function loadPromptTemplates(dir: string): PromptTemplateName[] {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    throw new PromptTemplateError([`prompts directory not found: ${dir}`]);
+  }
+
+  const names = Object.keys(PROMPT_TEMPLATE_VARIABLES) as PromptTemplateName[];
+  const templates = { ...DEFAULT_PROMPT_TEMPLATES };
+  const loaded: PromptTemplateName[] = [];
+  const problems: string[] = [];
+
+  for (const file of fs.readdirSync(dir)) {
+    const name = path.basename(file, ".txt") as PromptTemplateName;
+    if (path.extname(file) !== ".txt" || !names.includes(name)) {
+      console.warn(`[prompts] ignoring ${file}: expected one of ${names.map((n) => `${n}.txt`).join(", ")}`);
+      continue;
+    }
+
+    templates[name] = fs.readFileSync(path.join(dir, file), "utf8").trimEnd();
+    loaded.push(name);
+  }
+
+  names.forEach((name) => problems.push(...validatePromptTemplate(name, templates[name])));
+  if (problems.length) {
+    throw new PromptTemplateError(problems);
+  }
+
+  activeTemplates = templates;
+  return loaded;
+}
+
+// Lists unknown variables and unbalanced {{#section}} blocks in a template.
+export function validatePromptTemplate(name: PromptTemplateName, template: string): string[] {
+  const allowed: readonly string[] = PROMPT_TEMPLATE_VARIABLES[name];
+  const problems: string[] = [];
+  const open: string[] = [];
+
+  for (const [, kind, variable] of template.matchAll(TAG)) {
+    if (!allowed.includes(variable!)) {
+      problems.push(`${name}: unknown variable "${variable}" (available: ${allowed.join(", ")})`);
+    }
+
+    if (kind === "#") {
+      open.push(variable!);
+    } else if (kind === "/" && open.pop() !== variable) {
+      problems.push(`${name}: unexpected {{/${variable}}}`);
+    }
+  }
+
+  open.forEach((variable) => problems.push(`${name}: {{#${variable}}} is never closed`));
+  return problems;
+}
+
+/**
+ * Renders the active template for a call site. `{{name}}` inserts a variable;
+ * `{{#name}}...{{/name}}` is kept only when the variable is non-empty. Lines
+ * left blank by empty variables or sections are removed.
+ */
+export function renderPrompt<N extends PromptTemplateName>(name: N, variables: PromptVariables<N>): string {
+  const values = variables as Record<string, string>;
+  const withSections = activeTemplates[name].replace(SECTION, (_, variable: string, body: string) =>
+    values[variable]?.trim() ? body : EMPTY,
+  );
+  const rendered = withSections.replace(TAG, (_, _kind, variable: string) => values[variable] || EMPTY);
+
+  return rendered
+    .split("\n")
+    .filter((line) => !line.includes(EMPTY) || line.replaceAll(EMPTY, "").trim())
+    .join("\n")
+    .replaceAll(EMPTY, "");
+}
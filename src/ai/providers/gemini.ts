@@ -0,0 +1,152 @@
+import {
+  ApiError,
+  GoogleGenAI,
+  type GenerateContentParameters,
+  type GenerateContentResponseUsageMetadata,
+} from "@google/genai";
+import type { GenAIConfig } from "../genai-client";
+import type { LLMCacheRequest, LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from "../llm-provider";
+import type { LLMUsage } from "../usage-tracker";
+import { LLMProviderError } from "../llm-errors";
+import { formatTurn } from "./messages";
+
+export function createGeminiProvider(config: GenAIConfig): LLMProvider {
+  const client = new GoogleGenAI({
+    apiKey: config.apiKey,
+    ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}),
+  });
+
+  return {
+    name: "gemini",
+    defaultModel: "gemini-2.5-flash",
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const response = await client.models.generateContent(buildParameters(request)).catch((error: unknown) => {
+        throw toProviderError(error);
+      });
+
+      return {
+        text: await extractText(response),
+        usage: toUsage(response.usageMetadata),
+      };
+    },
+    async createCache(request: LLMCacheRequest): Promise<string> {
+      const cache = await client.caches.create({
+        model: request.model,
+        config: {
+          systemInstruction: request.text,
+          ttl: `${request.ttlSeconds}s`,
+        },
+      }).catch((error: unknown) => {
+        throw toProviderError(error);
+      });
+
+      if (!cache.name) {
+        throw new LLMProviderError("gemini", undefined, "cache was created without a name");
+      }
+
+      return cache.name;
+    },
+    async deleteCache(handle: string): Promise<void> {
+      await client.caches.delete({ name: handle }).catch((error: unknown) => {
+        throw toProviderError(error);
+      });
+    },
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+      const stream = await client.models.generateContentStream(buildParameters(request)).catch((error: unknown) => {
+        throw toProviderError(error);
+      });
+
+      for await (const chunk of stream) {
+        yield { text: chunk.text ?? "", usage: toUsage(chunk.usageMetadata) };
+      }
+    },
+  };
+}
+
+function buildParameters(request: LLMRequest): GenerateContentParameters {
+  const handle = request.cachedContext?.handle;
+  // A cached context already holds the system instruction slot, so the
+  // per-call instruction then travels as the first user turn instead.
+  const systemInstruction = handle
+    ? ""
+    : [request.cachedContext?.text ?? "", request.systemInstruction ?? ""].filter(Boolean).join("\n\n");
+  const leadingTurns = handle && request.systemInstruction
+    ? [{ role: "user", parts: [{ text: request.systemInstruction }] }]
+    : [];
+
+  // Gemini understands our schema dialect natively, so it is sent as-is.
+  return {
+    model: request.model,
+    config: {
+      ...(handle ? { cachedContent: handle } : {}),
+      ...(systemInstruction ? { systemInstruction } : {}),
+      responseMimeType: 'application/json',
+        responseSchema: {
+          ...request.schema as Record<string, unknown>,
+        },
+        responseJsonSchema: {
+            ...request.schema as Record<string, unknown>
+        }
+    },
+    contents: [
+      ...leadingTurns,
+      ...(request.history ?? []).map((turn) => ({
+        role: turn.role,
+        parts: [{ text: formatTurn(turn) }],
+      })),
+      {
+        role: "user",
+        parts: [{ text: request.prompt }],
+      },
+    ],
+  };
+}
+
+function toUsage(usage: GenerateContentResponseUsageMetadata | undefined): LLMUsage | undefined {
+  return usage
+    ? {
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount ?? 0,
+      cachedTokens: usage.cachedContentTokenCount ?? 0,
+    }
+    : undefined;
+}
+
+function toProviderError(error: unknown): unknown {
+  if (!(error instanceof ApiError)) {
+    return error;
+  }
+
+  // Quota errors carry a RetryInfo detail such as "retryDelay": "23s".
+  const retryDelay = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(error.message)?.[1];
+  return new LLMProviderError(
+    "gemini",
+    error.status,
+    error.message,
+    retryDelay ? Number(retryDelay) * 1000 : undefined,
+  );
+}
+
+async function extractText(response: unknown): Promise<string> {
+  const responseObject = response as {
+    text?: string | (() => Promise<string>);
+    candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  };
+
+  if (typeof responseObject.text === "function") {
+    const text = await responseObject.text();
+    return text?.trim() ?? "";
+  }
+
+  if (typeof responseObject.text === "string") {
+    return responseObject.text.trim();
+  }
+
+  const parts = responseObject.candidates
+    ?.flatMap((candidate) => candidate.content?.parts ?? [])
+    .map((part) => part.text)
+    .filter((text): text is string => Boolean(text));
+
+  return parts?.join("").trim() ?? "";
+}
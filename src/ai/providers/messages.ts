@@ -0,0 +1,44 @@
+import type { ChatTurn } from "../genai-client";
+import type { LLMRequest } from "../llm-provider";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// Speaker names go into the content: OpenAI's `name` field rejects spaces.
+export function formatTurn(turn: ChatTurn): string {
+  return turn.name ? `${turn.name}: ${turn.text}` : turn.text;
+}
+
+// Cached static context first so the prompt prefix stays byte-identical
+// between calls and the backend's automatic prefix cache can reuse it.
+export function toSystemText(request: LLMRequest): string {
+  return [request.cachedContext?.text ?? "", request.systemInstruction ?? ""]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// System instruction, conversation history and the prompt as chat messages.
+export function toChatMessages(request: LLMRequest): ChatMessage[] {
+  const system = toSystemText(request);
+  return [
+    ...(system ? [{ role: "system" as const, content: system }] : []),
+    ...(request.history ?? []).map((turn) => ({
+      role: turn.role === "model" ? ("assistant" as const) : ("user" as const),
+      content: formatTurn(turn),
+    })),
+    { role: "user", content: request.prompt },
+  ];
+}
+
+// Single-string prompt for raw completion endpoints.
+export function toPlainPrompt(request: LLMRequest): string {
+  return [
+    toSystemText(request),
+    (request.history ?? []).map(formatTurn).join("\n"),
+    request.prompt,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,124 @@
+import type { GenAIConfig } from "../genai-client";
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from "../llm-provider";
+import type { LLMUsage } from "../usage-tracker";
+import { toStandardJsonSchema } from "../json-schema";
+import { LLMProviderError, parseRetryAfter } from "../llm-errors";
+import { readLines, readServerSentEvents } from "./stream";
+import { toChatMessages, toPlainPrompt } from "./messages";
+
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_LLAMACPP_URL = "http://localhost:8080";
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface LlamaCppCompletionResponse {
+  content?: string;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+}
+
+export function createOllamaProvider(config: GenAIConfig): LLMProvider {
+  const baseUrl = (config.baseUrl ?? DEFAULT_OLLAMA_URL).replace(/\/+$/, "");
+
+  // Ollama constrains decoding with a JSON Schema passed as `format`.
+  const buildPayload = (request: LLMRequest, stream: boolean) => ({
+    model: request.model,
+    stream,
+    format: toStandardJsonSchema(request.schema),
+    messages: toChatMessages(request),
+  });
+
+  return {
+    name: "ollama",
+    defaultModel: "llama3.1",
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const response = await post("ollama", `${baseUrl}/api/chat`, buildPayload(request, false));
+      const body = (await response.json()) as OllamaChatResponse;
+
+      return {
+        text: body.message?.content?.trim() ?? "",
+        usage: toUsage(body.prompt_eval_count, body.eval_count),
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+      const response = await post("ollama", `${baseUrl}/api/chat`, buildPayload(request, true));
+
+      // Streamed as newline-delimited JSON; the final object carries the counters.
+      for await (const line of readLines(response)) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        const chunk = JSON.parse(line) as OllamaChatResponse & { done?: boolean };
+        yield {
+          text: chunk.message?.content ?? "",
+          usage: chunk.done ? toUsage(chunk.prompt_eval_count, chunk.eval_count) : undefined,
+        };
+      }
+    },
+  };
+}
+
+export function createLlamaCppProvider(config: GenAIConfig): LLMProvider {
+  const baseUrl = (config.baseUrl ?? DEFAULT_LLAMACPP_URL).replace(/\/+$/, "");
+
+  // llama.cpp's native endpoint turns `json_schema` into a GBNF grammar.
+  const buildPayload = (request: LLMRequest, stream: boolean) => ({
+    prompt: toPlainPrompt(request),
+    json_schema: toStandardJsonSchema(request.schema),
+    n_predict: -1,
+    cache_prompt: true, // reuse the KV cache for the shared prompt prefix
+    stream,
+  });
+
+  return {
+    name: "llamacpp",
+    defaultModel: "default",
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const response = await post("llamacpp", `${baseUrl}/completion`, buildPayload(request, false));
+      const body = (await response.json()) as LlamaCppCompletionResponse;
+
+      return {
+        text: body.content?.trim() ?? "",
+        usage: toUsage(body.tokens_evaluated, body.tokens_predicted),
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+      const response = await post("llamacpp", `${baseUrl}/completion`, buildPayload(request, true));
+
+      for await (const chunk of readServerSentEvents<LlamaCppCompletionResponse & { stop?: boolean }>(response)) {
+        yield {
+          text: chunk.content ?? "",
+          usage: chunk.stop ? toUsage(chunk.tokens_evaluated, chunk.tokens_predicted) : undefined,
+        };
+      }
+    },
+  };
+}
+
+function toUsage(promptTokens: number = 0, completionTokens: number = 0): LLMUsage {
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+async function post(provider: string, url: string, payload: unknown): Promise<Response> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new LLMProviderError(
+      provider,
+      response.status,
+      `request failed (${response.status}): ${await response.text()}`,
+      parseRetryAfter(response.headers.get("retry-after")),
+    );
+  }
+
+  return response;
+}
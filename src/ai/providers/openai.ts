@@ -0,0 +1,137 @@
+import type { GenAIConfig } from "../genai-client";
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from "../llm-provider";
+import type { LLMUsage } from "../usage-tracker";
+import { readServerSentEvents } from "./stream";
+import { toChatMessages } from "./messages";
+import { toStandardJsonSchema, type StandardJsonSchema } from "../json-schema";
+import { LLMProviderError, parseRetryAfter } from "../llm-errors";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: OpenAIUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: OpenAIUsage | null;
+}
+
+// Works with any server exposing the OpenAI chat-completions API
+// (OpenAI, OpenRouter, vLLM, LM Studio, llama.cpp's /v1 endpoint...).
+export function createOpenAIProvider(config: GenAIConfig): LLMProvider {
+  const baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  async function send(request: LLMRequest, schema: StandardJsonSchema, stream: boolean): Promise<Response> {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: toChatMessages(request),
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "response", schema, strict: false },
+        },
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new LLMProviderError(
+        "openai",
+        response.status,
+        `request failed (${response.status}): ${await response.text()}`,
+        parseRetryAfter(response.headers.get("retry-after")),
+      );
+    }
+
+    return response;
+  }
+
+  return {
+    name: "openai",
+    defaultModel: "gpt-4o-mini",
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const { schema, wrapped } = toResponseFormatSchema(request);
+      const response = await send(request, schema, false);
+
+      const body = (await response.json()) as ChatCompletionResponse;
+      const text = body.choices?.[0]?.message?.content?.trim() ?? "";
+      return {
+        text: wrapped ? unwrapValue(text) : text,
+        usage: toUsage(body.usage),
+      };
+    },
+    async *stream(request: LLMRequest): AsyncIterable<LLMStreamChunk> {
+      const { schema, wrapped } = toResponseFormatSchema(request);
+      const response = await send(request, schema, true);
+
+      // A wrapped `{ value }` document can only be unwrapped once complete.
+      let buffered = "";
+      let usage: LLMUsage | undefined;
+      for await (const chunk of readServerSentEvents<ChatCompletionChunk>(response)) {
+        const delta = chunk.choices?.[0]?.delta?.content ?? "";
+        usage = toUsage(chunk.usage) ?? usage;
+        if (wrapped) {
+          buffered += delta;
+        } else if (delta || chunk.usage) {
+          yield { text: delta, usage: toUsage(chunk.usage) };
+        }
+      }
+
+      if (wrapped) {
+        yield { text: unwrapValue(buffered.trim()), usage };
+      }
+    },
+  };
+}
+
+function toUsage(usage: OpenAIUsage | null | undefined): LLMUsage | undefined {
+  return usage
+    ? {
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens ?? 0,
+      cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    }
+    : undefined;
+}
+
+// Structured outputs require an object at the root, so arrays and scalars are
+// wrapped in `{ value }` and unwrapped again once the response arrives.
+function toResponseFormatSchema(request: LLMRequest): { schema: StandardJsonSchema; wrapped: boolean } {
+  const schema = toStandardJsonSchema(request.schema);
+  if (schema.type === "object") {
+    return { schema, wrapped: false };
+  }
+
+  return {
+    schema: {
+      type: "object",
+      required: ["value"],
+      properties: { value: schema },
+    },
+    wrapped: true,
+  };
+}
+
+function unwrapValue(text: string): string {
+  try {
+    const parsed = JSON.parse(text) as { value?: unknown };
+    return parsed && "value" in parsed ? JSON.stringify(parsed.value) : text;
+  } catch {
+    return text;
+  }
+}
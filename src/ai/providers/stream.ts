@@ -0,0 +1,40 @@
+// Yields the body of a streaming HTTP response one line at a time.
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let newline = buffer.indexOf("\n");
+    while (newline >= 0) {
+      yield buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+// Yields the JSON payload of each `data:` line of a server-sent event stream.
+export async function* readServerSentEvents<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith("data:")) {
+      continue;
+    }
+
+    const data = line.slice(5).trim();
+    if (!data || data === "[DONE]") {
+      continue;
+    }
+
+    yield JSON.parse(data) as T;
+  }
+}
@@ -0,0 +1,58 @@
+import { LLMProviderError } from "./llm-errors";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Runs `task`, retrying transient transport failures (429, 408, 5xx, network
+ * errors) with exponential backoff and full jitter. A server-provided
+ * Retry-After wins over the computed delay.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  label: string = "llm",
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= policy.maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = computeDelay(error, attempt, policy);
+      console.warn(`[${label}] transient failure, retrying in ${delayMs}ms (${attempt + 1}/${policy.maxRetries})`, (error as Error).message);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMProviderError) {
+    return error.retryable;
+  }
+
+  // fetch() rejects with a TypeError when the connection itself fails.
+  return error instanceof TypeError;
+}
+
+function computeDelay(error: unknown, attempt: number, policy: RetryPolicy): number {
+  const retryAfterMs = error instanceof LLMProviderError ? error.retryAfterMs : undefined;
+  // Honor the server's Retry-After, but never stall the trial longer than the policy allows.
+  if (retryAfterMs !== undefined) {
+    return Math.round(Math.min(retryAfterMs, policy.maxDelayMs));
+  }
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
@@ -0,0 +1,117 @@
+import type { JsonSchema } from "./genai-client";
+import { normalizeType } from "./json-schema";
+
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly violations: string[],
+    readonly rawText: string,
+    readonly attempts: number,
+  ) {
+    super(`Structured output still invalid after ${attempts} attempt(s): ${violations.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Checks a parsed value against the schema that was sent to the model and
+ * returns human-readable violations (empty when valid). Covers types, required
+ * fields, enums and array sizes; other keywords are left to the provider.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = "$"): string[] {
+  const source = schema as Record<string, unknown>;
+  const violations: string[] = [];
+
+  const types = toTypeList(source);
+  if (types.length && !types.some((type) => matchesType(value, type))) {
+    violations.push(`${path}: expected ${types.join(" or ")}, got ${describeType(value)}`);
+    return violations;
+  }
+
+  if (value === null || value === undefined) {
+    return violations;
+  }
+
+  if (Array.isArray(source.enum) && !source.enum.map(String).includes(String(value))) {
+    violations.push(`${path}: ${JSON.stringify(value)} is not one of ${source.enum.map((entry) => JSON.stringify(entry)).join(", ")}`);
+  }
+
+  if (Array.isArray(value)) {
+    const minItems = toLimit(source.minItems);
+    const maxItems = toLimit(source.maxItems);
+    if (minItems !== undefined && value.length < minItems) {
+      violations.push(`${path}: expected at least ${minItems} items, got ${value.length}`);
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      violations.push(`${path}: expected at most ${maxItems} items, got ${value.length}`);
+    }
+
+    if (source.items && typeof source.items === "object") {
+      value.forEach((item, index) => {
+        violations.push(...validateAgainstSchema(item, source.items as JsonSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const required = Array.isArray(source.required) ? (source.required as string[]) : [];
+    required.forEach((key) => {
+      if (record[key] === undefined) {
+        violations.push(`${path}.${key}: required field is missing`);
+      }
+    });
+
+    const properties = (source.properties ?? {}) as Record<string, JsonSchema>;
+    Object.entries(properties).forEach(([key, propertySchema]) => {
+      if (record[key] !== undefined) {
+        violations.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    });
+  }
+
+  return violations;
+}
+
+function toTypeList(source: Record<string, unknown>): string[] {
+  const normalized = normalizeType(source.type);
+  if (normalized === undefined) {
+    return [];
+  }
+
+  const list = Array.isArray(normalized) ? normalized : [normalized];
+  return source.nullable ? [...list, "null"] : list;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+// Gemini encodes int64 limits as strings ("4"), JSON Schema as numbers.
+function toLimit(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
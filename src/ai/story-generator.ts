@@ -1,12 +1,21 @@
 import { Type } from "@google/genai";
 import type { GenAIClient, JsonSchema } from "./genai-client";
+import { renderPrompt } from "./prompt-templates";
+import { CassetteMissError } from "./cassette-client";
 
 const FALLBACK_PROMPT =
   "You are orchestrating an Ace Attorney style trial. Keep dialogue concise and paced for live chat.";
 
+export interface CasePromptOptions {
+  model?: string;
+  continuity?: string; // campaign summary, see Campaign.describeContinuity
+  theme?: string; // theme pack constraints, see compileThemeConstraints
+}
+
 export async function generateCasePrompt(
   genai: GenAIClient | null,
   extraText: string = "",
+  options: CasePromptOptions = {},
 ): Promise<string> {
   const fallback = appendExtra(FALLBACK_PROMPT, extraText);
 
@@ -15,26 +24,22 @@ export async function generateCasePrompt(
   }
 
   try {
-    const prompt = buildPrompt(extraText);
+    const prompt = buildPrompt(extraText, options.continuity ?? "", options.theme ?? "");
     const schema = buildSchema();
-    const raw = await genai.generateJson<{ prompt: string }>(prompt, schema);
+    const raw = await genai.generateJson<{ prompt: string }>(prompt, schema, { task: "case", model: options.model });
     const clean = sanitize(raw.prompt);
     return clean ? appendExtra(clean, extraText) : fallback;
   } catch (error) {
+    if (error instanceof CassetteMissError) {
+      throw error;
+    }
     console.error("generateCasePrompt failed, using fallback:", error);
     return fallback;
   }
 }
 
-function buildPrompt(extraText: string): string {
-  return [
-    "Create a trial premise for an Ace Attorney style scene. Max 2 long paragraph describing the case, crime (what did the defendant do?), and the crime scene. Do NOT write plot, previous trials, court dialogue, or previous story events.",
-    "Must include: Prosecutor Miles Edgeworth, a Judge, one or more Witnesses, and a Defendant. The player is the Defense (Phoenix Wright). Add an extra character disguised as witness or defendant to create intrigue or conflict.",
-    "Plain text only, no markdown.",
-    extraText ? `Also include: ${extraText}` : "",
-  ]
-    .filter(Boolean)
-    .join("\n");
+function buildPrompt(extraText: string, continuity: string, theme: string): string {
+  return renderPrompt("story", { extraText, continuity, theme });
 }
 
 function sanitize(text: string): string {
@@ -1,5 +1,8 @@
 import chalk from "chalk";
 import type { CharacterState } from "../core/Character";
+import type { UsageTracker } from "./usage-tracker";
+import type { ChatTurn } from "./genai-client";
+import { renderPrompt } from "./prompt-templates";
 
 export interface SpeakerCandidate {
   id: number;
@@ -22,12 +25,16 @@ export interface SpeechDraft {
   playerTurn?: boolean;
   memory?: string[];
   continueSpeech?: boolean;
+  deliveredText?: string; // leading part already shown in court while streaming
+  confessed?: boolean; // the speaker admits to the crime in this line
 }
 
 export interface StoryManagerOptions {
   cooldownMs?: number;
   playerUsername?: string;
   genai?: any;
+  usage?: UsageTracker;
+  model?: string; // model for speaker selection, a cheap one is enough
 }
 
 export class StoryManager {
@@ -39,6 +46,8 @@ export class StoryManager {
   private awaitingPlayer = true;
   private playerUsername: string;
   private genai: any;
+  private usage: UsageTracker | null;
+  private model?: string;
 
   private speechLog: Array<{ speakerId?: number; speakerName: string; speakerState?:CharacterState; text: string; }> = [];
 
@@ -46,6 +55,8 @@ export class StoryManager {
     this.cooldownMs = options.cooldownMs ?? 15000;
     this.playerUsername = options.playerUsername ?? "eduapps";
     this.genai = options.genai ?? null;
+    this.usage = options.usage ?? null;
+    this.model = options.model;
   }
 
   public getLast20Messages(): Array<{ speakerId?: number; speakerName: string; speakerState?:CharacterState; text: string; }> {
@@ -78,6 +89,34 @@ export class StoryManager {
     return lines.join("\n");
   }
 
+  // The speech log as chat turns from `speakerId`'s point of view: their own
+  // lines are model turns, everyone else's are user turns tagged with the role.
+  public buildConversationHistory(speakerId?: number, roleLookup?: Map<string, string>): ChatTurn[] {
+    return this.getLast20Messages().map((entry) => {
+      const role = entry.speakerId
+        ? roleLookup?.get(entry.speakerName) ?? "Character"
+        : "Defense";
+      const state = entry.speakerState
+        ? ` (poseId=${entry.speakerState.poseId}, mood=${entry.speakerState.mood})`
+        : "";
+      const isSelf = speakerId !== undefined && entry.speakerId === speakerId;
+
+      return {
+        role: isSelf ? "model" : "user",
+        name: `[${role}] ${entry.speakerName}${state}`,
+        text: entry.text,
+      };
+    });
+  }
+
+  // Forget the previous trial: transcript, cooldowns, key points and turn state.
+  reset(): void {
+    this.speechLog = [];
+    this.lastSpokenAt.clear();
+    this.setKeyPoints([]);
+    this.forcePlayerTurn();
+  }
+
   beginPlayerTurn(username: string, aiTurnBudget: number): void {
     this.playerUsername = username;
     this.awaitingPlayer = false;
@@ -129,6 +168,10 @@ export class StoryManager {
     return [...this.keyPoints];
   }
 
+  getKeyPointIndex(): number {
+    return this.keyPointIndex;
+  }
+
   advanceKeyPoint(): string | undefined {
     if (this.keyPointIndex < this.keyPoints.length - 1) {
       this.keyPointIndex += 1;
@@ -169,8 +212,9 @@ export class StoryManager {
       }
     }
 
-    // If AI is unavailable, pick the NPC who hasn't spoken in the longest time (cooldown)
-    if (!this.genai || !context) {
+    // If AI is unavailable or the trial budget is running low, pick the NPC who
+    // hasn't spoken in the longest time (cooldown)
+    if (!this.genai || !context || this.isBudgetLow()) {
       return this.pickByCooldown(npcCandidates, now);
     }
 
@@ -183,6 +227,10 @@ export class StoryManager {
     return undefined; //Player's turn if AI fails to pick
   }
 
+  isBudgetLow(): boolean {
+    return (this.usage?.getBudgetStatus() ?? "ok") !== "ok";
+  }
+
   recordSpeech(speakerId: number, now: number = Date.now()): void {
     this.lastSpokenAt.set(speakerId, now);
   }
@@ -208,27 +256,25 @@ export class StoryManager {
       characterMemories?: Map<number, Array<{ entry: string }>>;
     },
   ): Promise<SpeakerCandidate | undefined> {
-    const characterDetails = candidates.map((c, i) => {
-      const memories = context.characterMemories?.get(c.id);
-      const memoryStr = memories?.length ? ` (remembers: ${memories.slice(-2).map(m => m.entry).join("; ")})` : "";
-      return `${i + 1}. ${c.username} (id: ${c.id})${memoryStr}`;
-    }).join("\n");
+    // Memories go to {{memories}} only, so a template using both lists them once.
+    const characterDetails = candidates.map((c, i) => `${i + 1}. ${c.username} (id: ${c.id})`).join("\n");
+    const memories = candidates
+      .map((c) => ({ name: c.username, entries: context.characterMemories?.get(c.id)?.slice(-2).map((m) => m.entry).join("; ") ?? "" }))
+      .filter((c) => c.entries)
+      .map((c) => `${c.name}: ${c.entries}`)
+      .join("\n");
 
     const roleLookup = new Map(candidates.map((c) => [c.username, c.role ?? "Character"]));
-    const transcript = this.buildSpeechLogTranscript(roleLookup);
-    const transcriptBlock = transcript ? `Recent transcript:\n${transcript}` : "";
-
-    const prompt = [
-      `Story: ${context.storyPrompt ?? "Ace Attorney trial"}`,
-      context.evidences?.length ? `Evidence: ${context.evidences.map((e) => e.name).join(", ")}` : "",
-      context.lastSpeakerName ? `Last speaker: ${context.lastSpeakerName}` : "",
-      `Last message: "${context.lastMsg ?? ""}"`,
-      transcriptBlock,
-      "\nWho should speak next to continue the trial naturally?",
-      "Consider: continuation needs, natural flow, courtroom dynamics, character memories.",
-      "set speakerId to the id of the chosen character, or null to skip and let player speak. Briefly explain your choice in the reason field.",
-      `\nAvailable characters:\n${characterDetails}`
-    ].filter(Boolean).join("\n");
+
+    const prompt = renderPrompt("speaker", {
+      storyPrompt: context.storyPrompt ?? "Ace Attorney trial",
+      evidences: context.evidences?.map((e) => e.name).join(", ") ?? "",
+      lastSpeaker: context.lastSpeakerName ?? "",
+      lastMessage: context.lastMsg ?? "",
+      transcript: this.buildSpeechLogTranscript(roleLookup) ?? "",
+      memories,
+      candidates: characterDetails,
+    });
 
     const schema = {
       type: "object" as const,
@@ -240,7 +286,7 @@ export class StoryManager {
     };
 
     try {
-      const result = await this.genai.generateJson(prompt, schema);
+      const result = await this.genai.generateJson(prompt, schema, { task: "speaker", model: this.model });
       if (!result.speakerId) {
         console.log(`[ai speaker choice]`, chalk.gray(`Player's turn`));
         masterCourt.sendPlainMessage({
@@ -0,0 +1,99 @@
+import type { GenAIClient, JsonSchema } from "./genai-client";
+import type { CharacterProfile } from "./character-manager";
+import type { Contradiction } from "./contradiction-generator";
+import { Type } from "@google/genai";
+import { renderPrompt } from "./prompt-templates";
+import { describeTruthFor, type CaseTruth } from "./truth-generator";
+
+// One statement of a witness's testimony, as shown on screen during the
+// cross-examination. `contradictionId` marks the planned false claim it states.
+export interface TestimonyStatement {
+  text: string;
+  contradictionId?: string;
+}
+
+export interface TestimonyOptions {
+  model?: string;
+  count?: number; // statements to ask for (default 4); planned claims are always included
+}
+
+interface GeneratedStatement {
+  text: string;
+  claimId: string;
+}
+
+const DEFAULT_COUNT = 4;
+const FALLBACK_STATEMENT = "I didn't see anything out of the ordinary.";
+
+/**
+ * Writes the fixed list of statements `witness` gives on the stand. Every
+ * claim in `claims` ends up as one statement: the ones the model leaves out
+ * are appended word for word. Without a client, or when generation fails, the
+ * testimony is just the claims.
+ */
+export async function generateTestimony(
+  genai: GenAIClient | null,
+  witness: CharacterProfile,
+  storyPrompt: string,
+  truth: CaseTruth | null,
+  claims: Contradiction[],
+  options: TestimonyOptions = {},
+): Promise<TestimonyStatement[]> {
+  const count = Math.max(claims.length, options.count ?? DEFAULT_COUNT, 1);
+  let statements: TestimonyStatement[] = [];
+
+  if (genai) {
+    try {
+      const prompt = renderPrompt("testimony", {
+        name: witness.name,
+        role: witness.role ?? "Witness",
+        storyPrompt,
+        truth: truth ? describeTruthFor(truth, witness) : "",
+        claims: claims.map((c) => `- [${c.id}] ${c.claim}`).join("\n"),
+        count: String(count),
+      });
+      const raw = await genai.generateJson<GeneratedStatement[]>(prompt, buildSchema(claims, count), { task: "testimony", model: options.model });
+
+      const claimIds = new Set(claims.map((c) => c.id));
+      const used = new Set<string>();
+      statements = raw
+        .filter((entry) => entry.text.trim())
+        .map((entry) => {
+          const id = claimIds.has(entry.claimId) && !used.has(entry.claimId) ? entry.claimId : undefined;
+          if (id) {
+            used.add(id);
+          }
+          return { text: entry.text.trim(), contradictionId: id };
+        });
+    } catch (error) {
+      console.error("generateTestimony failed:", error);
+    }
+  }
+
+  const stated = new Set(statements.map((s) => s.contradictionId));
+  claims
+    .filter((c) => !stated.has(c.id))
+    .forEach((c) => statements.push({ text: c.claim, contradictionId: c.id }));
+
+  return statements.length ? statements : [{ text: FALLBACK_STATEMENT }];
+}
+
+function buildSchema(claims: Contradiction[], count: number): JsonSchema {
+  return {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      required: ["text", "claimId"],
+      properties: {
+        text: { type: Type.STRING, description: "One statement of the testimony. One sentence." },
+        claimId: {
+          type: Type.STRING,
+          enum: ["none", ...claims.map((c) => c.id)],
+          description: "Id of the claim this statement makes, or none.",
+        },
+      },
+    },
+    minItems: String(count),
+    maxItems: String(count),
+  };
+}
@@ -0,0 +1,209 @@
+import fs from "fs";
+import path from "path";
+import { Type } from "@google/genai";
+import type { JsonSchema } from "./genai-client";
+import type { CaseDefinition } from "./case-manager";
+import { isCourtOfficial, type CharacterProfile } from "./character-manager";
+import Character from "../core/Character";
+import { validateAgainstSchema } from "./schema-validator";
+
+/**
+ * Declarative constraints for a themed case, read from a JSON or YAML file.
+ * Every field is optional; an empty list means "no constraint".
+ */
+export interface ThemePack {
+  name: string;
+  setting?: string; // where the case takes place
+  era?: string;
+  tone?: string;
+  victims: string[]; // victim archetypes, the case must use one of them
+  weapons: string[]; // weapon archetypes, the case must use one of them
+  bannedTopics: string[]; // must not appear anywhere in the case
+  presets: number[]; // character preset ids that must be cast
+  backgrounds: number[]; // witness/defendant presets are picked from these backgrounds
+}
+
+// Constraint text for each generator prompt; empty when the pack says nothing relevant.
+export interface ThemeConstraints {
+  story: string;
+  evidence: string;
+  characters: string;
+}
+
+export class ThemePackError extends Error {
+  constructor(readonly file: string, readonly problems: string[]) {
+    super(`Invalid theme pack ${file}:\n${problems.map((problem) => `- ${problem}`).join("\n")}`);
+    this.name = "ThemePackError";
+  }
+}
+
+// Reads a `.json`, `.yaml` or `.yml` pack; YAML needs Bun's parser. Throws ThemePackError listing every problem.
+export function loadThemePack(file: string): ThemePack {
+  const extension = path.extname(file).toLowerCase();
+  const yaml = extension === ".yaml" || extension === ".yml";
+  if (yaml && typeof Bun === "undefined") {
+    throw new ThemePackError(file, ["YAML theme packs need Bun (bun index.ts); under Node, use a .json pack"]);
+  }
+
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(file, "utf8");
+    raw = yaml ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ThemePackError(file, [(error as Error).message]);
+  }
+
+  return parseThemePack(raw, file);
+}
+
+export function parseThemePack(raw: unknown, file: string = "<theme>"): ThemePack {
+  const problems = validateAgainstSchema(raw, THEME_PACK_SCHEMA);
+  if (problems.length) {
+    throw new ThemePackError(file, problems);
+  }
+
+  const pack = raw as Partial<ThemePack>;
+  const presets = pack.presets ?? [];
+  // Preset ids are only known once Character.fetchCharacterData() ran.
+  if (Character.getCachedCharacters().length) {
+    presets
+      .filter((id) => !Character.getCharacterData(id))
+      .forEach((id) => problems.push(`$.presets: no character preset with id ${id}`));
+    if (problems.length) {
+      throw new ThemePackError(file, problems);
+    }
+  }
+
+  return {
+    name: pack.name ?? path.basename(file, path.extname(file)),
+    setting: pack.setting,
+    era: pack.era,
+    tone: pack.tone,
+    victims: pack.victims ?? [],
+    weapons: pack.weapons ?? [],
+    bannedTopics: pack.bannedTopics ?? [],
+    presets,
+    backgrounds: pack.backgrounds ?? [],
+  };
+}
+
+// Turns the pack into the `theme` variable of the story, evidence and character prompts.
+export function compileThemeConstraints(pack: ThemePack): ThemeConstraints {
+  const setting = [
+    pack.setting ? `Setting: ${pack.setting}.` : "",
+    pack.era ? `Era: ${pack.era}; nothing in the case may be out of place for it.` : "",
+  ];
+  const tone = pack.tone ? `Tone: ${pack.tone}.` : "";
+  const banned = pack.bannedTopics.length ? `Never mention: ${pack.bannedTopics.join(", ")}.` : "";
+  const presets = pack.presets.map((id) => `${id}:${Character.getCharacterData(id)?.name ?? "?"}`);
+
+  return {
+    story: lines([
+      ...setting,
+      tone,
+      pack.victims.length ? `The victim must be one of: ${pack.victims.join(", ")}.` : "",
+      pack.weapons.length ? `The weapon or method must be one of: ${pack.weapons.join(", ")}.` : "",
+      banned,
+    ]),
+    evidence: lines([
+      ...setting,
+      pack.weapons.length ? `Include the weapon, one of: ${pack.weapons.join(", ")}.` : "",
+      banned,
+    ]),
+    characters: lines([
+      ...setting,
+      tone,
+      presets.length ? `You MUST cast these characterIds as witnesses or the defendant: ${presets.join(", ")}.` : "",
+      banned,
+    ]),
+  };
+}
+
+// Witness/defendant presets the pack's backgrounds allow, plus its required
+// presets. Undefined when the pack doesn't restrict backgrounds.
+export function getThemePresetIds(pack: ThemePack): number[] | undefined {
+  if (!pack.backgrounds.length) {
+    return undefined;
+  }
+
+  const backgrounds = new Set(pack.backgrounds);
+  const themed = Character.getCachedCharacters()
+    .filter((preset) => preset.side === "witness" && backgrounds.has(preset.backgroundId))
+    .map((preset) => preset.id);
+  return Array.from(new Set([...pack.presets, ...themed]));
+}
+
+// Pins the pack presets the generator cast, so CaseManager doesn't swap them for random ones.
+export function applyThemePresets(pack: ThemePack, profiles: CharacterProfile[]): CharacterProfile[] {
+  const themed = new Set([...pack.presets, ...(getThemePresetIds(pack) ?? [])]);
+  return profiles.map((profile) =>
+    !profile.characterId && themed.has(profile.id) && !isCourtOfficial(profile)
+      ? { ...profile, characterId: profile.id }
+      : profile,
+  );
+}
+
+/**
+ * Lists where a generated case breaks the pack: required presets not cast,
+ * banned topics mentioned, no victim or weapon of the required archetypes,
+ * witnesses on presets outside the pack's backgrounds.
+ */
+export function checkThemePack(definition: CaseDefinition, pack: ThemePack): string[] {
+  const characters = definition.characters ?? [];
+  const evidences = definition.evidences ?? [];
+  const presetOf = (profile: CharacterProfile) => profile.characterId ?? profile.id;
+  const problems: string[] = [];
+
+  const cast = new Set(characters.map(presetOf));
+  pack.presets
+    .filter((id) => !cast.has(id))
+    .forEach((id) => problems.push(`theme "${pack.name}": preset ${id} was not cast`));
+
+  const texts = [
+    definition.storyPrompt,
+    ...evidences.flatMap((e) => [e.name, e.description ?? ""]),
+    ...characters.flatMap((c) => [c.name, c.description ?? ""]),
+  ];
+  const mentions = (term: string, haystack: string[]) =>
+    haystack.some((text) => text.toLowerCase().includes(term.toLowerCase()));
+
+  pack.bannedTopics
+    .filter((topic) => mentions(topic, texts))
+    .forEach((topic) => problems.push(`theme "${pack.name}": banned topic "${topic}" appears in the case`));
+
+  const crimeTexts = [definition.storyPrompt, ...evidences.flatMap((e) => [e.name, e.description ?? ""])];
+  if (pack.victims.length && !pack.victims.some((victim) => mentions(victim, crimeTexts))) {
+    problems.push(`theme "${pack.name}": no victim matching ${pack.victims.join(", ")}`);
+  }
+  if (pack.weapons.length && !pack.weapons.some((weapon) => mentions(weapon, crimeTexts))) {
+    problems.push(`theme "${pack.name}": no weapon matching ${pack.weapons.join(", ")}`);
+  }
+
+  if (pack.backgrounds.length) {
+    const allowed = new Set(getThemePresetIds(pack));
+    characters
+      .filter((c) => !isCourtOfficial(c) && !allowed.has(presetOf(c)))
+      .forEach((c) => problems.push(`theme "${pack.name}": ${c.name} uses preset ${presetOf(c)}, outside the pack's backgrounds`));
+  }
+
+  return problems;
+}
+
+function lines(parts: string[]): string {
+  return parts.filter(Boolean).join("\n");
+}
+
+const THEME_PACK_SCHEMA: JsonSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    setting: { type: Type.STRING },
+    era: { type: Type.STRING },
+    tone: { type: Type.STRING },
+    victims: { type: Type.ARRAY, items: { type: Type.STRING } },
+    weapons: { type: Type.ARRAY, items: { type: Type.STRING } },
+    bannedTopics: { type: Type.ARRAY, items: { type: Type.STRING } },
+    presets: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+    backgrounds: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+  },
+};
@@ -0,0 +1,68 @@
+import { GroupType } from "../api/types/groups";
+import type { EvidenceItem } from "./case-manager";
+import type { Contradiction } from "./contradiction-generator";
+
+// A court session (GroupType.Normal) or the investigation before it.
+export type SegmentType = GroupType.Normal | GroupType.Investigation;
+
+/**
+ * Where the trial is: day 1 is court only; every later day starts with an
+ * investigation and ends in court, as in the games.
+ */
+export interface TrialSegment {
+  day: number;
+  type: SegmentType;
+}
+
+export const FIRST_SEGMENT: TrialSegment = { day: 1, type: GroupType.Normal };
+
+export function isInvestigation(segment: TrialSegment): boolean {
+  return segment.type === GroupType.Investigation;
+}
+
+export function describeSegment(segment: TrialSegment, days: number): string {
+  return isInvestigation(segment)
+    ? `Day ${segment.day} of ${days}, investigation`
+    : `Day ${segment.day} of ${days}, court`;
+}
+
+// Segment that follows `segment`, or null after the last court day.
+export function nextSegment(segment: TrialSegment, days: number): TrialSegment | null {
+  if (isInvestigation(segment)) {
+    return { day: segment.day, type: GroupType.Normal };
+  }
+
+  return segment.day < days ? { day: segment.day + 1, type: GroupType.Investigation } : null;
+}
+
+/**
+ * Holds evidence back for the investigations of a `days`-long trial. The
+ * contradictions are spread evenly over the days and the evidence exposing
+ * each one turns up on its day; evidence no contradiction needs is in the
+ * court record from the start.
+ */
+export function scheduleEvidence(
+  evidences: EvidenceItem[],
+  contradictions: Contradiction[],
+  days: number,
+): EvidenceItem[] {
+  if (days <= 1) {
+    return evidences;
+  }
+
+  const firstDay = new Map<string, number>();
+  contradictions.forEach((c, index) => {
+    const day = Math.floor((index * days) / contradictions.length) + 1;
+    firstDay.set(c.evidenceId, Math.min(firstDay.get(c.evidenceId) ?? day, day));
+  });
+
+  return evidences.map((item) => {
+    const day = firstDay.get(item.id) ?? 1;
+    return day > 1 ? { ...item, visibility: "hidden", reveal: { when: "investigation", day } } : item;
+  });
+}
+
+// Contradictions that should be exposed before court day `day` may close.
+export function courtDayTarget(totalContradictions: number, day: number, days: number): number {
+  return Math.ceil((totalContradictions * day) / days);
+}
@@ -0,0 +1,187 @@
+export type TrialPhase = "opening" | "testimony" | "cross-examination" | "rebuttal" | "recess" | "verdict";
+
+export const TRIAL_PHASES: TrialPhase[] = ["opening", "testimony", "cross-examination", "rebuttal", "recess", "verdict"];
+
+// What the phase machine needs to know about the trial; CaseManager builds it.
+export interface PhaseContext {
+  witnessIds: number[]; // witnesses and the defendant, in the order they take the stand
+  pendingContradictions: (witnessId: number) => number; // planned for that witness, not exposed yet
+  testimonyComplete: (witnessId: number) => boolean; // their statements have all been delivered
+  inRecess: boolean;
+  trialEnded: boolean;
+}
+
+interface PhaseRules {
+  speakers: string[]; // roles allowed to speak; "stand" is the witness on the stand
+  prompt: string; // {witness} is replaced with the name of the witness on the stand
+  minBeats: number; // AI lines before the phase may end
+}
+
+const PHASE_RULES: Record<TrialPhase, PhaseRules> = {
+  opening: {
+    speakers: ["judge", "prosecutor"],
+    prompt: "Phase: opening statements. The Judge opens the session and the prosecution outlines its case against the defendant. No witness has been called yet.",
+    minBeats: 2,
+  },
+  testimony: {
+    speakers: ["judge", "stand"],
+    prompt: "Phase: witness testimony. {witness} testifies about what they know in short, clear statements. Nobody else interrupts.",
+    minBeats: 0,
+  },
+  "cross-examination": {
+    speakers: ["judge", "prosecutor", "stand"],
+    prompt: "Phase: cross-examination of {witness}. The defense may press any statement or present evidence; the witness answers and defends their testimony, and the prosecutor backs them up.",
+    minBeats: 0,
+  },
+  rebuttal: {
+    speakers: ["judge", "prosecutor", "stand"],
+    prompt: "Phase: rebuttal. The defense has just exposed a contradiction in {witness}'s testimony. The prosecution tries to explain it away and the witness reacts.",
+    minBeats: 2,
+  },
+  recess: {
+    // The Judge's lines double as the circuit breaker's probe, so a recess can end.
+    speakers: ["judge"],
+    prompt: "Phase: recess. The court is not in session. The Judge only asks everyone to wait until the court resumes.",
+    minBeats: 0,
+  },
+  verdict: {
+    speakers: ["judge"],
+    prompt: "Phase: verdict. The Judge weighs what has been proven and hands down the verdict.",
+    minBeats: 0,
+  },
+};
+
+// AI lines a cross-examination may run without progress before the witness steps down.
+const CROSS_EXAMINATION_LIMIT = 10;
+
+/**
+ * Where a court day is: opening statements, then for each witness a testimony
+ * and cross-examination, with a rebuttal after every exposed contradiction,
+ * and the verdict once nothing is left to expose. A recess can interrupt any
+ * phase and resumes it afterwards. `update` applies the exit conditions and is
+ * called after every beat and whenever the trial state changes.
+ */
+export class TrialPhaseMachine {
+  private phase: TrialPhase = "opening";
+  private witnessId: number | null = null;
+  private beats = 0; // AI lines in this phase
+  private pendingAtEntry = 0;
+  private heard = new Set<number>(); // witnesses who already testified
+  private resumeTo: TrialPhase | null = null; // phase interrupted by a recess
+
+  getPhase(): TrialPhase {
+    return this.phase;
+  }
+
+  getWitnessId(): number | null {
+    return this.witnessId;
+  }
+
+  reset(): void {
+    this.phase = "opening";
+    this.witnessId = null;
+    this.beats = 0;
+    this.pendingAtEntry = 0;
+    this.heard.clear();
+    this.resumeTo = null;
+  }
+
+  // Moves to `phase` regardless of the exit conditions, e.g. from the REPL or a new court day.
+  enter(phase: TrialPhase, context: PhaseContext, witnessId: number | null = this.witnessId): void {
+    this.resumeTo = null;
+    this.transition(phase, witnessId, context);
+  }
+
+  recordBeat(): void {
+    this.beats += 1;
+  }
+
+  // Applies the exit condition of the current phase. Returns the new phase, or null when it didn't change.
+  update(context: PhaseContext): TrialPhase | null {
+    const before = this.phase;
+
+    if (context.trialEnded) {
+      this.transition("verdict", this.witnessId, context);
+    } else if (context.inRecess && this.phase !== "recess") {
+      const interrupted = this.phase;
+      this.transition("recess", this.witnessId, context);
+      this.resumeTo = interrupted;
+    } else if (this.phase === "recess") {
+      if (!context.inRecess && this.resumeTo) {
+        const resume = this.resumeTo;
+        this.resumeTo = null;
+        this.transition(resume, this.witnessId, context);
+      }
+    } else if (this.beats >= PHASE_RULES[this.phase].minBeats) {
+      this.applyExitCondition(context);
+    }
+
+    return this.phase === before ? null : this.phase;
+  }
+
+  allows(role: string | undefined, characterId: number): boolean {
+    const speakers = PHASE_RULES[this.phase].speakers;
+    return speakers.includes(role?.toLowerCase() ?? "") || (speakers.includes("stand") && characterId === this.witnessId);
+  }
+
+  // Instructions for the current phase, for the speech prompt.
+  describe(witnessName: string | undefined): string {
+    return PHASE_RULES[this.phase].prompt.replaceAll("{witness}", witnessName ?? "the witness");
+  }
+
+  private applyExitCondition(context: PhaseContext): void {
+    const witness = this.witnessId;
+    switch (this.phase) {
+      case "opening":
+        this.callNextWitness(context);
+        return;
+      case "testimony":
+        if (witness !== null && context.testimonyComplete(witness)) {
+          this.transition("cross-examination", witness, context);
+        }
+        return;
+      case "cross-examination":
+        if (witness !== null && context.pendingContradictions(witness) < this.pendingAtEntry) {
+          this.transition("rebuttal", witness, context);
+        } else if (this.beats >= CROSS_EXAMINATION_LIMIT) {
+          this.callNextWitness(context);
+        }
+        return;
+      case "rebuttal":
+        if (witness !== null && context.pendingContradictions(witness) > 0) {
+          this.transition("cross-examination", witness, context);
+        } else {
+          this.callNextWitness(context);
+        }
+        return;
+    }
+  }
+
+  // Next witness who hasn't testified, then anyone with contradictions left; the verdict when nobody is left.
+  private callNextWitness(context: PhaseContext): void {
+    const next = context.witnessIds.find((id) => !this.heard.has(id)) ??
+      context.witnessIds.find((id) => id !== this.witnessId && context.pendingContradictions(id) > 0) ??
+      (this.witnessId !== null && context.pendingContradictions(this.witnessId) > 0 ? this.witnessId : undefined);
+
+    if (next === undefined) {
+      this.transition("verdict", this.witnessId, context);
+    } else {
+      this.transition("testimony", next, context);
+    }
+  }
+
+  private transition(next: TrialPhase, witnessId: number | null, context: PhaseContext): void {
+    if (next === this.phase && witnessId === this.witnessId) {
+      return;
+    }
+
+    console.log(`[phase] ${this.phase} -> ${next}${witnessId !== null && next !== "opening" ? ` (witness ${witnessId})` : ""}`);
+    this.phase = next;
+    this.witnessId = witnessId;
+    this.beats = 0;
+    this.pendingAtEntry = witnessId !== null ? context.pendingContradictions(witnessId) : 0;
+    if (next === "testimony" && witnessId !== null) {
+      this.heard.add(witnessId);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import type { GenAIClient, JsonSchema } from "./genai-client";
+import { isCourtOfficial, type CharacterProfile } from "./character-manager";
+import type { EvidenceItem } from "./case-manager";
+import { Type } from "@google/genai";
+import { renderPrompt } from "./prompt-templates";
+import { CassetteMissError } from "./cassette-client";
+
+export interface TimelineEvent {
+  time: string; // "HH:MM"
+  event: string;
+  knownBy: number[]; // ids of the characters who saw it or could know it
+}
+
+// What really happened. Kept server-side: characters only ever get their own
+// slice of it, and it is never posted to the courtroom.
+export interface CaseTruth {
+  culpritId: number;
+  motive: string;
+  method: string;
+  timeline: TimelineEvent[];
+}
+
+export interface CaseTruthOptions {
+  model?: string;
+}
+
+interface GeneratedTruth {
+  culprit: string;
+  motive: string;
+  method: string;
+  timeline: Array<{ time: string; event: string; knownBy: string[] }>;
+}
+
+/**
+ * Decides who did it, why, how and when. Returns null without a client or when
+ * the model names a culprit that is not one of `characters`.
+ */
+export async function generateCaseTruth(
+  genai: GenAIClient | null,
+  storyPrompt: string,
+  characters: CharacterProfile[],
+  evidences: EvidenceItem[],
+  options: CaseTruthOptions = {},
+): Promise<CaseTruth | null> {
+  if (!genai) {
+    return null;
+  }
+
+  const suspects = characters.filter((c) => !isCourtOfficial(c));
+  if (!suspects.length) {
+    return null;
+  }
+
+  try {
+    const prompt = buildPrompt(storyPrompt, characters, evidences);
+    const schema = buildSchema(characters, suspects);
+    const raw = await genai.generateJson<GeneratedTruth>(prompt, schema, { task: "truth", model: options.model });
+
+    const byName = new Map(characters.map((c) => [c.name.toLowerCase(), c.id]));
+    const culpritId = byName.get(raw.culprit.trim().toLowerCase());
+    if (culpritId === undefined) {
+      console.error(`generateCaseTruth: culprit "${raw.culprit}" is not a trial character`);
+      return null;
+    }
+
+    return {
+      culpritId,
+      motive: raw.motive.trim(),
+      method: raw.method.trim(),
+      timeline: raw.timeline.map((entry) => ({
+        time: entry.time.trim(),
+        event: entry.event.trim(),
+        knownBy: entry.knownBy
+          .map((name) => byName.get(name.trim().toLowerCase()))
+          .filter((id): id is number => id !== undefined),
+      })),
+    };
+  } catch (error) {
+    if (error instanceof CassetteMissError) {
+      throw error;
+    }
+    console.error("generateCaseTruth failed:", error);
+    return null;
+  }
+}
+
+// The culprit's own view of the truth, or the timeline events they witnessed.
+export function describeTruthFor(truth: CaseTruth, character: Pick<CharacterProfile, "id">): string {
+  const known = truth.timeline
+    .filter((entry) => entry.knownBy.includes(character.id))
+    .map((entry) => `- ${entry.time} ${entry.event}`);
+
+  if (truth.culpritId === character.id) {
+    return [
+      "SECRET: you committed the crime. Never admit it unless cornered by evidence.",
+      `Motive: ${truth.motive}`,
+      `Method: ${truth.method}`,
+      known.length ? `What you did and saw:\n${known.join("\n")}` : "",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  }
+
+  return known.length ? `What you saw that night (you may lie or be mistaken about it):\n${known.join("\n")}` : "";
+}
+
+function buildPrompt(storyPrompt: string, characters: CharacterProfile[], evidences: EvidenceItem[]): string {
+  return renderPrompt("truth", {
+    storyPrompt,
+    characters: characters.map((c) => `- ${c.name} (${c.role ?? "Witness"})${c.description ? `: ${c.description}` : ""}`).join("\n"),
+    evidences: evidences.map((e) => `- ${e.name}${e.description ? `: ${e.description}` : ""}`).join("\n"),
+  });
+}
+
+function buildSchema(characters: CharacterProfile[], suspects: CharacterProfile[]): JsonSchema {
+  return {
+    type: Type.OBJECT,
+    required: ["culprit", "motive", "method", "timeline"],
+    properties: {
+      culprit: { type: Type.STRING, enum: suspects.map((c) => c.name) },
+      motive: { type: Type.STRING },
+      method: { type: Type.STRING },
+      timeline: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          required: ["time", "event", "knownBy"],
+          properties: {
+            time: { type: Type.STRING, description: "24h clock, HH:MM" },
+            event: { type: Type.STRING, description: "One thing that happened, <= 25 words." },
+            knownBy: {
+              type: Type.ARRAY,
+              description: "Names of the characters who saw this or would know about it. May be empty.",
+              items: { type: Type.STRING, enum: characters.map((c) => c.name) },
+            },
+          },
+        },
+        minItems: "4",
+        maxItems: "15",
+      },
+    },
+  };
+}
@@ -0,0 +1,117 @@
+export type LLMTask = "case" | "evidence" | "characters" | "truth" | "contradictions" | "testimony" | "speaker" | "speech";
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cachedTokens?: number; // part of promptTokens served from a context/prefix cache
+}
+
+export interface UsageTotals extends LLMUsage {
+  calls: number;
+  cost: number; // USD
+}
+
+export interface UsageBudget {
+  maxTokens?: number;
+  maxCost?: number; // USD
+}
+
+export type BudgetStatus = "ok" | "low" | "exhausted";
+
+// Approximate list prices in USD per 1M tokens (input, output), matched by
+// model id prefix. Unknown and self-hosted models are counted as free.
+const PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: "gemini-3-pro", input: 2, output: 12 },
+  { prefix: "gemini-3-flash", input: 0.5, output: 3 },
+  { prefix: "gemini-2.5-pro", input: 1.25, output: 10 },
+  { prefix: "gemini-2.5-flash-lite", input: 0.1, output: 0.4 },
+  { prefix: "gemini-2.5-flash", input: 0.3, output: 2.5 },
+  { prefix: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { prefix: "gpt-4o", input: 2.5, output: 10 },
+];
+
+const LOW_BUDGET_RATIO = 0.8;
+// Cached prompt tokens are billed at roughly a quarter of the input price.
+const CACHED_INPUT_RATIO = 0.25;
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cachedTokens: 0, cost: 0 };
+}
+
+/**
+ * Sums LLM token usage per call site, per trial and for the whole session, and
+ * checks the per-trial totals against an optional token/cost budget.
+ */
+export class UsageTracker {
+  private readonly budget: UsageBudget;
+  private trialByTask = new Map<LLMTask, UsageTotals>();
+  private trial = emptyTotals();
+  private session = emptyTotals();
+
+  constructor(budget: UsageBudget = {}) {
+    this.budget = budget;
+  }
+
+  startTrial(): void {
+    this.trialByTask.clear();
+    this.trial = emptyTotals();
+  }
+
+  record(task: LLMTask, model: string, usage: LLMUsage): void {
+    const cost = estimateCost(model, usage);
+    const byTask = this.trialByTask.get(task) ?? emptyTotals();
+    [byTask, this.trial, this.session].forEach((totals) => {
+      totals.calls += 1;
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+      totals.totalTokens += usage.totalTokens;
+      totals.cachedTokens = (totals.cachedTokens ?? 0) + (usage.cachedTokens ?? 0);
+      totals.cost += cost;
+    });
+    this.trialByTask.set(task, byTask);
+  }
+
+  getTrialTotals(): UsageTotals {
+    return { ...this.trial };
+  }
+
+  getSessionTotals(): UsageTotals {
+    return { ...this.session };
+  }
+
+  getTrialTotalsByTask(): Map<LLMTask, UsageTotals> {
+    return new Map(Array.from(this.trialByTask, ([task, totals]) => [task, { ...totals }]));
+  }
+
+  getBudget(): UsageBudget {
+    return { ...this.budget };
+  }
+
+  getBudgetStatus(): BudgetStatus {
+    const ratios = [
+      this.budget.maxTokens ? this.trial.totalTokens / this.budget.maxTokens : 0,
+      this.budget.maxCost ? this.trial.cost / this.budget.maxCost : 0,
+    ];
+    const used = Math.max(...ratios);
+
+    if (used >= 1) return "exhausted";
+    if (used >= LOW_BUDGET_RATIO) return "low";
+    return "ok";
+  }
+}
+
+export function estimateCost(model: string, usage: LLMUsage): number {
+  const price = PRICING.find((entry) => model.startsWith(entry.prefix));
+  if (!price) {
+    return 0;
+  }
+
+  const cached = Math.min(usage.cachedTokens ?? 0, usage.promptTokens);
+  const uncached = usage.promptTokens - cached;
+  return (
+    uncached * price.input +
+    cached * price.input * CACHED_INPUT_RATIO +
+    usage.completionTokens * price.output
+  ) / 1_000_000;
+}
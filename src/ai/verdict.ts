@@ -0,0 +1,51 @@
+import type { EpisodeVerdict } from "./campaign";
+
+// Why the trial ended.
+export type ResolutionReason =
+  | "confession" // the culprit confessed on the stand (the speech schema's `confessed` flag)
+  | "cornered" // every false claim of the culprit was exposed
+  | "contradictions" // every planned contradiction was exposed
+  | "heard" // every witness testified and nothing was left to expose, e.g. a case without contradictions
+  | "credibility" // the defense ran out of credibility
+  | "budget"; // the LLM budget ran out
+
+export interface TrialResult {
+  verdict: EpisodeVerdict; // for the defendant
+  reason: ResolutionReason;
+  culpritId: number | null;
+  exposed: number; // contradictions exposed
+  total: number; // contradictions planned
+  summary: string; // the Judge's closing words
+}
+
+export interface ResolutionState {
+  culpritId: number | null;
+  culpritClaims: { planned: number; exposed: number };
+  exposed: number;
+  total: number;
+  finalDay: boolean; // the last court day; earlier days never close the case on exposures
+  witnessesHeard: boolean; // every witness testified and none has contradictions left
+  line?: { speakerId: number; confessed: boolean }; // the latest character line, as the model flagged it
+}
+
+/**
+ * Whether the case is solved: the culprit confessed in `line`, or, on the last
+ * court day, every claim they were steered to make was exposed, every planned
+ * contradiction was, or every witness was heard with nothing left to expose.
+ * Null while the trial should go on.
+ */
+export function detectResolution(state: ResolutionState): ResolutionReason | null {
+  if (state.line?.confessed && state.line.speakerId === state.culpritId) {
+    return "confession";
+  }
+  if (!state.finalDay) {
+    return null;
+  }
+  if (state.culpritClaims.planned > 0 && state.culpritClaims.exposed >= state.culpritClaims.planned) {
+    return "cornered";
+  }
+  if (state.total > 0 && state.exposed >= state.total) {
+    return "contradictions";
+  }
+  return state.witnessesHeard ? "heard" : null;
+}
@@ -1,4 +1,6 @@
 import type CourtroomWebSocketClient from "../api/courtroom-websocket-client";
+import type { CourtroomSocket } from "../api/courtroom-websocket-client";
+import type { CreateMessageDto } from "../api/courtroom-websocket-types";
 
 export interface CharacterPose {
     id: number;
@@ -40,6 +42,10 @@ export interface CharacterState {
 
 export default class Character {
     private static characterCache: CharacterData[] = [];
+    // Last username set on each shared courtroom socket, to skip redundant renames.
+    // Keyed on the socket session: a reconnect gets the join username back from the server.
+    private static activeUsernames = new WeakMap<CourtroomWebSocketClient, { session: string; username: string }>();
+    private static watchedSockets = new WeakSet<CourtroomSocket>();
 
     public readonly id: number;
     public readonly name: string;
@@ -102,9 +108,10 @@ export default class Character {
         return this.state.mood;
     }
 
-    public static getPossibleWitnessIds(): string[] {
+    // Shuffled with `random`, so a seeded generator gives the same order every run.
+    public static getPossibleWitnessIds(random: () => number = Math.random): string[] {
         const witnesses = this.characterCache.filter(char => char.side === "witness").map(char => char.id.toString()+':'+char.name);
-        return witnesses.sort(() => Math.random() - 0.5);
+        return witnesses.sort(() => random() - 0.5);
     }
 
     public setMood(mood: "neutral" | "happy" | "sad" | "angry" | "surprised" | "nervous") {
@@ -119,6 +126,27 @@ export default class Character {
         return this.state.poseId;
     }
 
+    // Follows renames of the socket's own user, so a username changed elsewhere is not mistaken for ours.
+    private static watchUsername(courtroom: CourtroomWebSocketClient) {
+        const socket = courtroom.getSocket();
+        if (!socket || Character.watchedSockets.has(socket)) {
+            return;
+        }
+        Character.watchedSockets.add(socket);
+
+        let ownId: string | undefined;
+        courtroom.onMe((me) => {
+            ownId = me.user?.id;
+        });
+        courtroom.onUserUpdate((userId, data) => {
+            const session = courtroom.getSocket()?.id;
+            if (userId === ownId && session) {
+                Character.activeUsernames.set(courtroom, { session, username: data.username });
+            }
+        });
+        courtroom.me();
+    }
+
     public getPossiblePoses() {
         const characterData = Character.characterCache.find(char => char.id === this.state.characterId);
         if (!characterData) {
@@ -127,27 +155,35 @@ export default class Character {
         return characterData.poses;
     }
 
-    public async speech(text: string, poseId?: number): Promise<void> {
+    // `extra` carries the courtroom effects of the line, e.g. a testimony popup.
+    public async speech(text: string, poseId?: number, extra: Pick<CreateMessageDto, "popup" | "isTestimony"> = {}): Promise<void> {
         this.state.poseId = poseId ?? this.state.poseId;
         console.log(`${this.name} (${this.id}) says: ${text}`, this.state);
         
         // Change username to this character's name before sending message
-        console.log(`[username change] Changing to: ${this.name}`);
-        this.courtroom.changeUsername({ username: this.name });
-        
-        // Wait for username change to propagate on server
-        await new Promise(resolve => setTimeout(resolve, 300));
+        Character.watchUsername(this.courtroom);
+        const session = this.courtroom.getSocket()?.id;
+        const active = Character.activeUsernames.get(this.courtroom);
+        if (!session || active?.session !== session || active.username !== this.name) {
+            console.log(`[username change] Changing to: ${this.name}`);
+            this.courtroom.changeUsername({ username: this.name });
+            if (session) {
+                Character.activeUsernames.set(this.courtroom, { session, username: this.name });
+            }
+
+            // Wait for username change to propagate on server
+            await new Promise(resolve => setTimeout(resolve, 300));
+        }
         
         const messageData = {
             text,
             characterId: this.state.characterId,
-            poseId: this.state.poseId
+            poseId: this.state.poseId,
+            ...extra
         };
         
         console.log(`[sending message] ${this.name}:`, messageData);
+        // Socket.IO keeps emits in order, so no extra wait is needed after sending.
         this.courtroom.sendMessage(messageData);
-        
-        // Wait a bit to ensure message is sent before next operation
-        await new Promise(resolve => setTimeout(resolve, 100));
     }
 }
\ No newline at end of file
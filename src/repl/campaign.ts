@@ -0,0 +1,80 @@
+import chalk from "chalk";
+import { defaultCaseTitle } from "../ai/case-file";
+import type { EpisodeVerdict } from "../ai/campaign";
+
+const USAGE = `Usage:
+  campaign                                         show the series so far
+  campaign end <guilty|not-guilty|unresolved> [summary...]
+                                                   record the current case as an episode
+  campaign thread add <text...>
+  campaign thread resolve <number>`;
+
+const VERDICTS: Record<string, EpisodeVerdict> = {
+    "guilty": "guilty",
+    "not-guilty": "not guilty",
+    "unresolved": "unresolved",
+};
+
+function show(): void {
+    if (!campaign) {
+        return;
+    }
+
+    console.log(chalk.bold(`Campaign "${campaign.title}"`), `- next episode: ${campaign.nextEpisode}`);
+    campaign.getEpisodes().forEach((e) => {
+        console.log(`  Ep ${e.episode} ${e.title}: ${e.verdict}${e.culprit ? chalk.gray(` (culprit ${e.culprit})`) : ""}`);
+    });
+    campaign.getThreads().forEach((thread, index) => console.log(`  thread ${index + 1}: ${thread}`));
+    campaign.getCharacters().forEach((c) => {
+        console.log(`  ${c.name} ${chalk.gray(`(${c.role ?? "?"}, episodes ${c.episodes.join(", ")}, ${c.memories.length} memories)`)}`);
+    });
+}
+
+export default function campaignCommand(args: string[]) {
+    if (!campaign) {
+        console.log("No campaign loaded; start the server with --campaign <file>");
+        return;
+    }
+
+    const [action, sub, ...rest] = args;
+
+    if (!action) {
+        show();
+        return;
+    }
+
+    if (action === "end") {
+        const verdict = sub ? VERDICTS[sub] : undefined;
+        if (!verdict) {
+            console.log(USAGE);
+            return;
+        }
+
+        const record = caseManager.recordEpisode(campaign, {
+            title: defaultCaseTitle(caseManager.getCaseState().storyPrompt),
+            verdict,
+            summary: rest.join(" ") || undefined,
+            culpritId: caseManager.getCaseTruth()?.culpritId,
+        });
+        if (!record) {
+            console.log(chalk.red("The current case is already recorded as an episode"));
+            return;
+        }
+        console.log(`Recorded episode ${record.episode}: ${record.title} (${record.verdict})`);
+        return;
+    }
+
+    if (action === "thread" && sub === "add" && rest.length) {
+        campaign.addThread(rest.join(" "));
+        console.log("Thread added");
+        return;
+    }
+
+    if (action === "thread" && sub === "resolve") {
+        const resolved = campaign.resolveThread(Number(rest[0]) - 1);
+        console.log(resolved ? `Resolved: ${resolved}` : "No such thread");
+        return;
+    }
+
+    console.log(USAGE);
+}
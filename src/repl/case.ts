@@ -0,0 +1,17 @@
+import chalk from "chalk";
+import { getDifficultySettings } from "../ai/difficulty";
+import { describeSegment } from "../ai/trial-days";
+
+export default function caseInfo() {
+    const state = caseManager.getCaseState();
+    const settings = getDifficultySettings(state.difficulty);
+    const contradictions = caseManager.getContradictions();
+
+    console.log(chalk.bold("Difficulty:"), state.difficulty);
+    console.log(`  evidence ${settings.evidenceCount.min}-${settings.evidenceCount.max} items, ${settings.contradictions} contradictions, ${settings.mistakesAllowed} mistakes allowed`);
+    console.log(chalk.bold("Trial:"), describeSegment(state.segment, state.days), chalk.gray(`phase: ${state.phase}`));
+    console.log(chalk.bold("Evidence:"), state.evidences.map((e) => e.name).join(", ") || "none");
+    console.log(chalk.bold("Characters:"), state.characters.map((c) => `${c.name} (${c.role})`).join(", ") || "none");
+    console.log(chalk.bold("Contradictions exposed:"), `${caseManager.getExposedContradictions().length}/${contradictions.length}`);
+    console.log(chalk.bold("Credibility:"), `${state.credibility.remaining}/${state.credibility.max}`);
+}
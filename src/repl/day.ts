@@ -0,0 +1,26 @@
+import chalk from "chalk";
+import { describeSegment } from "../ai/trial-days";
+
+const USAGE = `Usage:
+  day                              show the current day and segment
+  day next                         end the court day or investigation now`;
+
+export default async function day(args: string[]) {
+    const [action] = args;
+    const state = caseManager.getCaseState();
+
+    switch (action) {
+        case undefined: {
+            const ready = caseManager.isSegmentComplete() ? chalk.green(" (ready to move on)") : "";
+            console.log(chalk.bold(describeSegment(state.segment, state.days)) + ready);
+            return;
+        }
+        case "next": {
+            const next = await caseManager.advanceSegment();
+            console.log(next ? `Now: ${describeSegment(next, state.days)}` : chalk.gray("This is the last court day"));
+            return;
+        }
+        default:
+            console.log(USAGE);
+    }
+}
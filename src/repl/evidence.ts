@@ -0,0 +1,41 @@
+import chalk from "chalk";
+import { describeReveal } from "../ai/evidence-reveal";
+
+const USAGE = `Usage:
+  evidence                         list the case evidence and where it is
+  evidence reveal <id>             add a hidden item to the Court Record now
+  evidence retract <id>            remove an item from the Court Record`;
+
+export default async function evidence(args: string[]) {
+    const [action, id] = args;
+
+    switch (action) {
+        case "list":
+        case undefined: {
+            const colors = { visible: chalk.green, hidden: chalk.yellow, retracted: chalk.gray };
+            caseManager.getEvidenceStatus().forEach(({ item, visibility }) => {
+                const when = visibility === "hidden" ? chalk.gray(` (revealed ${describeReveal(item.reveal)})`) : "";
+                console.log(`  ${colors[visibility](visibility.padEnd(9))} ${item.id}: ${item.name}${when}`);
+            });
+            return;
+        }
+        case "reveal": {
+            if (!id) {
+                console.log(USAGE);
+                return;
+            }
+            console.log(await caseManager.revealEvidence(id) ? `Revealed ${id}` : chalk.red(`No hidden evidence "${id}"`));
+            return;
+        }
+        case "retract": {
+            if (!id) {
+                console.log(USAGE);
+                return;
+            }
+            console.log(caseManager.retractEvidence(id) ? `Retracted ${id}` : chalk.red(`No evidence "${id}" in the Court Record`));
+            return;
+        }
+        default:
+            console.log(USAGE);
+    }
+}
@@ -0,0 +1,28 @@
+import chalk from "chalk";
+
+const USAGE = `Usage:
+  keypoint                         list the key points of the case
+  keypoint next                    move the story to the next key point`;
+
+export default function keypoint(args: string[]) {
+    const [action] = args;
+
+    switch (action) {
+        case undefined: {
+            const points = caseManager.getKeyPoints();
+            if (!points.length) {
+                console.log(chalk.gray("This case has no key points"));
+                return;
+            }
+            points.forEach((point, index) => console.log(`${index + 1}. ${point}`));
+            return;
+        }
+        case "next": {
+            const point = caseManager.advanceKeyPoint();
+            console.log(point ? `Now at: ${point}` : chalk.gray("This case has no key points"));
+            return;
+        }
+        default:
+            console.log(USAGE);
+    }
+}
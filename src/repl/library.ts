@@ -0,0 +1,75 @@
+import chalk from "chalk";
+import type { CaseLibraryEntry } from "../ai/case-library";
+
+const USAGE = `Usage:
+  library list
+  library search <words...>        match title, theme, difficulty and tags
+  library save [title...]          add the current case to the library
+  library tag <id> <tags...>
+  library untag <id> <tags...>
+  library rate <id> <1-5>
+  library theme <id> <theme...>
+  library title <id> <title...>`;
+
+function formatEntry(entry: CaseLibraryEntry): string {
+    const rating = entry.meta.rating ? "★".repeat(entry.meta.rating) : chalk.gray("unrated");
+    const details = [
+        entry.case.difficulty ?? "normal",
+        entry.meta.theme,
+        entry.meta.tags.length ? entry.meta.tags.map((tag) => `#${tag}`).join(" ") : "",
+    ].filter(Boolean).join(", ");
+    return `${chalk.bold(entry.id)}  ${entry.meta.title}  ${rating}  ${chalk.gray(details)}`;
+}
+
+function printEntries(entries: CaseLibraryEntry[]): void {
+    if (!entries.length) {
+        console.log(chalk.gray(`No cases found in ${caseLibrary.dir}`));
+        return;
+    }
+    entries.forEach((entry) => console.log(formatEntry(entry)));
+}
+
+export default function library(args: string[]) {
+    const [action, id, ...rest] = args;
+
+    switch (action) {
+        case "list":
+        case undefined:
+            printEntries(caseLibrary.list());
+            return;
+        case "search":
+            printEntries(caseLibrary.search([id, ...rest].filter(Boolean).join(" ")));
+            return;
+        case "save": {
+            const title = [id, ...rest].filter(Boolean).join(" ");
+            const entry = caseLibrary.add(caseManager.getCaseDefinition(), title ? { title } : {});
+            console.log("Saved", formatEntry(entry));
+            return;
+        }
+    }
+
+    if (!id) {
+        console.log(USAGE);
+        return;
+    }
+
+    switch (action) {
+        case "tag":
+            console.log(formatEntry(caseLibrary.tag(id, rest)));
+            return;
+        case "untag":
+            console.log(formatEntry(caseLibrary.untag(id, rest)));
+            return;
+        case "rate":
+            console.log(formatEntry(caseLibrary.rate(id, Number(rest[0]))));
+            return;
+        case "theme":
+            console.log(formatEntry(caseLibrary.setTheme(id, rest.join(" "))));
+            return;
+        case "title":
+            console.log(formatEntry(caseLibrary.setTitle(id, rest.join(" "))));
+            return;
+        default:
+            console.log(USAGE);
+    }
+}
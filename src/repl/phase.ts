@@ -0,0 +1,29 @@
+import chalk from "chalk";
+import { TRIAL_PHASES, type TrialPhase } from "../ai/trial-phase";
+
+const USAGE = `Usage:
+  phase                            show the current trial phase
+  phase <${TRIAL_PHASES.join("|")}> [witness id]
+                                   move the trial to that phase`;
+
+export default function phase(args: string[]) {
+    const [name, witness] = args;
+
+    if (name && !(TRIAL_PHASES as string[]).includes(name)) {
+        console.log(USAGE);
+        return;
+    }
+
+    if (name) {
+        const witnessId = witness !== undefined ? Number(witness) : undefined;
+        if (witnessId !== undefined && !caseManager.getCharacter(witnessId)) {
+            console.log(chalk.red(`No character with id ${witness}`));
+            return;
+        }
+        caseManager.setPhase(name as TrialPhase, witnessId);
+    }
+
+    const state = caseManager.getCaseState();
+    const witnessName = state.characters.find((c) => c.id === state.witnessOnStand)?.name;
+    console.log(chalk.bold("Phase:"), state.phase, witnessName ? chalk.gray(`(on the stand: ${witnessName})`) : "");
+}
@@ -0,0 +1,58 @@
+import chalk from "chalk";
+import { describeQueuedCase } from "../ai/case-queue";
+
+const USAGE = `Usage:
+  queue list
+  queue add <library id>           play a saved case
+  queue new [prompt...]            play a freshly generated case
+  queue remove <position>
+  queue clear
+  queue next                       end the current case and start the next one`;
+
+export default async function queue(args: string[]) {
+    const [action, ...rest] = args;
+
+    switch (action) {
+        case "list":
+        case undefined: {
+            const items = caseQueue.list();
+            if (!items.length) {
+                console.log(chalk.gray("Queue is empty"));
+                return;
+            }
+            items.forEach((item, index) => console.log(`${index + 1}. ${describeQueuedCase(item)}`));
+            return;
+        }
+        case "add": {
+            const id = rest[0];
+            if (!id) {
+                console.log(USAGE);
+                return;
+            }
+            caseLibrary.get(id); // fail now rather than when the case comes up
+            console.log(`Queued at position ${caseQueue.enqueue({ source: "library", id })}`);
+            return;
+        }
+        case "new": {
+            const prompt = rest.join(" ");
+            console.log(`Queued at position ${caseQueue.enqueue({ source: "generate", prompt: prompt || undefined })}`);
+            return;
+        }
+        case "remove": {
+            const removed = caseQueue.remove(Number(rest[0]));
+            console.log(removed ? `Removed ${describeQueuedCase(removed)}` : "No such position");
+            return;
+        }
+        case "clear":
+            caseQueue.clear();
+            console.log("Queue cleared");
+            return;
+        case "next":
+            if (!(await caseQueue.advance())) {
+                console.log("Nothing to start: the queue is empty or a case is already starting");
+            }
+            return;
+        default:
+            console.log(USAGE);
+    }
+}
@@ -0,0 +1,34 @@
+import chalk from "chalk";
+
+const USAGE = `Usage:
+  testimony                        show the testimony of the witness on the stand
+  testimony <next|prev>            show the next or previous statement in the courtroom`;
+
+export default async function testimony(args: string[]) {
+    const [action] = args;
+
+    switch (action) {
+        case undefined: {
+            const statements = caseManager.getTestimony();
+            if (!statements.length) {
+                console.log(chalk.gray("The witness on the stand has not testified yet"));
+                return;
+            }
+            const current = caseManager.getCurrentStatement();
+            statements.forEach((statement, index) => {
+                const marker = statement === current ? chalk.yellow(">") : " ";
+                const claim = statement.contradictionId ? chalk.gray(` (${statement.contradictionId})`) : "";
+                console.log(`${marker} ${index + 1}. ${statement.text}${claim}`);
+            });
+            return;
+        }
+        case "next":
+        case "prev": {
+            const statement = await caseManager.stepTestimony(action === "next" ? 1 : -1);
+            console.log(statement ? `On screen: ${statement.text}` : chalk.red("No cross-examination in progress"));
+            return;
+        }
+        default:
+            console.log(USAGE);
+    }
+}
@@ -0,0 +1,26 @@
+import chalk from "chalk";
+import type { UsageTotals } from "../ai/usage-tracker";
+
+function formatTotals(totals: UsageTotals): string {
+    return `${totals.calls} calls, ${totals.totalTokens} tokens (${totals.promptTokens} in, ${totals.cachedTokens ?? 0} cached / ${totals.completionTokens} out), $${totals.cost.toFixed(4)}`;
+}
+
+export default function usage() {
+    const trial = usageTracker.getTrialTotals();
+    const budget = usageTracker.getBudget();
+
+    console.log(chalk.bold("Trial usage:"), formatTotals(trial));
+    usageTracker.getTrialTotalsByTask().forEach((totals, task) => {
+        console.log(`  ${task.padEnd(10)} ${formatTotals(totals)}`);
+    });
+
+    if (budget.maxTokens || budget.maxCost) {
+        const limits = [
+            budget.maxTokens ? `${budget.maxTokens} tokens` : "",
+            budget.maxCost ? `$${budget.maxCost}` : "",
+        ].filter(Boolean).join(" / ");
+        console.log(chalk.bold("Budget:"), `${limits} (${usageTracker.getBudgetStatus()})`);
+    }
+
+    console.log(chalk.bold("Session usage:"), formatTotals(usageTracker.getSessionTotals()));
+}